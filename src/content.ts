@@ -0,0 +1,110 @@
+// 帖子内容处理：解码 HTML 实体、HTML 转纯文本、提取图片和按字素截断
+
+const namedEntities: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+  ensp: ' ',
+  emsp: ' ',
+  thinsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  middot: '·',
+  bull: '•',
+  deg: '°',
+  times: '×',
+  divide: '÷',
+  yen: '¥',
+  euro: '€',
+  pound: '£',
+  cent: '¢',
+  sect: '§',
+  para: '¶',
+  plusmn: '±'
+}
+
+// 解码命名实体和数字实体，无法识别的实体原样保留
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') {
+      return namedEntities[entity] ?? namedEntities[entity.toLowerCase()] ?? match
+    }
+    const code = entity[1] === 'x' || entity[1] === 'X'
+      ? parseInt(entity.slice(2), 16)
+      : parseInt(entity.slice(1), 10)
+    if (!code || code > 0x10FFFF || (code >= 0xD800 && code <= 0xDFFF)) return match
+    return String.fromCodePoint(code)
+  })
+}
+
+// 将 HTML 转为纯文本，保留段落和换行
+export function htmlToText(html: string): string {
+  if (!html) return ''
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1\s*>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n• ')
+    .replace(/<\/(p|div|li|h[1-6]|tr|blockquote|pre|ul|ol|table)\s*>/gi, '\n')
+    .replace(/<hr\b[^>]*>/gi, '\n')
+    .replace(/<\/?[a-z][^>]*>|<![^>]*>/gi, '')
+  return decodeEntities(text)
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v\u00A0\u3000]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// 提取 HTML 中的图片地址，相对地址按 baseUrl 补全
+export function extractImages(html: string, baseUrl?: string): string[] {
+  if (!html) return []
+  const images: string[] = []
+  const pattern = /<img\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(html))) {
+    const url = normalizeImageUrl(decodeEntities(match[1] ?? match[2] ?? match[3]), baseUrl)
+    if (url && !images.includes(url)) images.push(url)
+  }
+  return images
+}
+
+// 只保留 http(s) 图片地址
+export function normalizeImageUrl(src: string, baseUrl?: string): string | null {
+  if (!src) return null
+  try {
+    const url = new URL(src.trim(), baseUrl || undefined)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+function splitGraphemes(text: string): string[] {
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter('zh', { granularity: 'grapheme' }).segment(text), segment => segment.segment)
+  }
+  return Array.from(text)
+}
+
+// 按字素截断，不会拆开 emoji 和组合字符
+export function truncateText(text: string, length: number, ellipsis = '...'): string {
+  if (!text || text.length <= length) return text || ''
+  const graphemes = splitGraphemes(text)
+  if (graphemes.length <= length) return text
+  return graphemes.slice(0, length).join('').trimEnd() + ellipsis
+}
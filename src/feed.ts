@@ -0,0 +1,296 @@
+// 订阅源格式识别和统一：RSS 2.0、RSS 1.0 (RDF)、Atom 和 JSON Feed，以及生成 RSS 2.0 和 Atom 订阅源
+import { XMLParser } from 'fast-xml-parser'
+import { normalizeImageUrl } from './content'
+
+export type FeedFormat = 'rss' | 'rdf' | 'atom' | 'json'
+
+// 统一后的条目
+export interface FeedEntry {
+  id: string
+  title: string
+  description: string
+  link: string
+  author: string
+  categories: string[]
+  images: string[]  // 附件和媒体中的图片，正文中的图片由内容处理提取
+  published?: Date
+  updated?: Date
+}
+
+export interface ParsedFeed {
+  format: FeedFormat
+  entries: FeedEntry[]
+}
+
+export class FeedFormatError extends Error {
+  name = 'FeedFormatError'
+}
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  // 可能重复出现的元素统一解析为数组
+  isArray: name => ['item', 'entry', 'category', 'subject', 'link', 'author', 'creator', 'enclosure', 'content', 'thumbnail'].includes(name)
+})
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+// 读取元素文本，带属性的元素文本位于 #text 中
+function text(node: any): string {
+  if (node === undefined || node === null) return ''
+  if (Array.isArray(node)) return text(node[0])
+  if (typeof node === 'object') return String(node['#text'] ?? '').trim()
+  return String(node).trim()
+}
+
+function parseDate(value: any): Date | undefined {
+  const raw = text(value)
+  if (!raw) return undefined
+  const date = new Date(raw)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))]
+}
+
+// 作者可能是字符串、{ name } 对象或 RSS 的 "email (名字)" 格式
+function parseAuthor(...candidates: any[]): string {
+  for (const candidate of candidates) {
+    for (const author of toArray(candidate)) {
+      const name = typeof author === 'object' && author !== null && 'name' in author
+        ? text(author.name)
+        : text(author)
+      if (!name) continue
+      const match = /^\S+@\S+\s+\((.+)\)$/.exec(name)
+      return match ? match[1] : name
+    }
+  }
+  return ''
+}
+
+function isImage(type: any): boolean {
+  return typeof type === 'string' && type.startsWith('image')
+}
+
+// RSS 的 enclosure 和 media:content / media:thumbnail 中的图片
+function parseMediaImages(item: any, baseUrl: string): string[] {
+  const urls: string[] = []
+  for (const enclosure of toArray(item.enclosure)) {
+    if (isImage(enclosure?.['@_type'])) urls.push(enclosure['@_url'])
+  }
+  for (const media of toArray(item.content)) {
+    if (typeof media === 'object' && media?.['@_url'] && (isImage(media['@_type']) || media['@_medium'] === 'image')) {
+      urls.push(media['@_url'])
+    }
+  }
+  for (const thumbnail of toArray(item.thumbnail)) {
+    if (thumbnail?.['@_url']) urls.push(thumbnail['@_url'])
+  }
+  return unique(urls.map(url => normalizeImageUrl(url, baseUrl)))
+}
+
+function parseRSSItem(item: any): FeedEntry {
+  const link = text(item.link)
+  return {
+    id: text(item.guid) || link,
+    title: text(item.title),
+    description: text(item.description) || text(item.encoded),
+    link,
+    author: parseAuthor(item.creator, item.author),
+    categories: unique(toArray(item.category).map(text)),
+    images: parseMediaImages(item, link),
+    published: parseDate(item.pubDate) || parseDate(item.date),
+    updated: parseDate(item.updated)
+  }
+}
+
+function parseRDFItem(item: any): FeedEntry {
+  const link = text(item.link)
+  return {
+    id: item['@_about'] || link,
+    title: text(item.title),
+    description: text(item.description) || text(item.encoded),
+    link,
+    author: parseAuthor(item.creator),
+    categories: unique(toArray(item.subject).map(text)),
+    images: [],
+    published: parseDate(item.date),
+    updated: parseDate(item.modified)
+  }
+}
+
+// Atom 的链接取 rel="alternate" 或未指定 rel 的链接
+function parseAtomLink(links: any[]): string {
+  const link = links.find(link => !link['@_rel'] || link['@_rel'] === 'alternate') || links[0]
+  if (!link) return ''
+  return typeof link === 'object' ? link['@_href'] || '' : text(link)
+}
+
+// 相对地址依次按条目的 xml:base、条目链接和订阅源的地址解析
+function parseAtomEntry(entry: any, feedAuthor: any, feedBaseUrl: string): FeedEntry {
+  const links = toArray(entry.link)
+  const link = parseAtomLink(links)
+  const baseUrl = normalizeImageUrl(entry['@_base'], feedBaseUrl) || normalizeImageUrl(link, feedBaseUrl) || feedBaseUrl
+  const images = links
+    .filter(link => link['@_rel'] === 'enclosure' && isImage(link['@_type']))
+    .map(link => normalizeImageUrl(link['@_href'], baseUrl))
+  return {
+    id: text(entry.id) || link,
+    title: text(entry.title),
+    description: text(entry.content) || text(entry.summary),
+    link,
+    author: parseAuthor(entry.author, feedAuthor),
+    categories: unique(toArray(entry.category).map(category => {
+      return typeof category === 'object' ? category['@_term'] || category['@_label'] || '' : text(category)
+    })),
+    images: unique(images),
+    published: parseDate(entry.published) || parseDate(entry.issued),
+    updated: parseDate(entry.updated) || parseDate(entry.modified)
+  }
+}
+
+function parseJSONItem(item: any, feedAuthors: any[]): FeedEntry {
+  const link = item.url || item.external_url || ''
+  const images = [item.image, item.banner_image, ...toArray(item.attachments)
+    .filter(attachment => isImage(attachment?.mime_type))
+    .map(attachment => attachment.url)]
+  return {
+    id: String(item.id ?? link),
+    title: item.title || '',
+    description: item.content_html || item.content_text || item.summary || '',
+    link,
+    author: parseAuthor(item.authors, item.author, feedAuthors),
+    categories: unique(toArray(item.tags).map(String)),
+    images: unique(images.map(url => normalizeImageUrl(url, link))),
+    published: parseDate(item.date_published),
+    updated: parseDate(item.date_modified)
+  }
+}
+
+function parseJSONFeed(source: string): ParsedFeed {
+  let data: any
+  try {
+    data = JSON.parse(source)
+  } catch (error) {
+    throw new FeedFormatError(`JSON Feed 解析失败：${error.message}`)
+  }
+  if (!data || !Array.isArray(data.items) || !/jsonfeed\.org/.test(data.version || '')) {
+    throw new FeedFormatError('无法识别的 JSON 订阅源格式')
+  }
+  const feedAuthors = [...toArray(data.authors), ...toArray(data.author)]
+  return { format: 'json', entries: data.items.map(item => parseJSONItem(item, feedAuthors)) }
+}
+
+// 识别订阅源格式并统一为条目列表，无法识别时抛出 FeedFormatError
+export function parseFeed(source: string): ParsedFeed {
+  const content = source.replace(/^\uFEFF/, '').trim()
+  if (!content) {
+    throw new FeedFormatError('订阅源内容为空')
+  }
+  if (content.startsWith('{')) {
+    return parseJSONFeed(content)
+  }
+
+  let data: any
+  try {
+    data = xmlParser.parse(content)
+  } catch (error) {
+    throw new FeedFormatError(`XML 解析失败：${error.message}`)
+  }
+
+  if (data.rss) {
+    const channel = Array.isArray(data.rss.channel) ? data.rss.channel[0] : data.rss.channel
+    return { format: 'rss', entries: toArray(channel?.item).map(parseRSSItem) }
+  }
+  if (data.RDF) {
+    // RSS 1.0 的 item 与 channel 同级
+    return { format: 'rdf', entries: toArray(data.RDF.item).map(parseRDFItem) }
+  }
+  if (data.feed) {
+    const feedBaseUrl = normalizeImageUrl(data.feed['@_base']) || normalizeImageUrl(parseAtomLink(toArray(data.feed.link))) || undefined
+    return { format: 'atom', entries: toArray(data.feed.entry).map(entry => parseAtomEntry(entry, data.feed.author, feedBaseUrl)) }
+  }
+
+  throw new FeedFormatError('无法识别的订阅源格式，支持 RSS 2.0、RSS 1.0、Atom 和 JSON Feed')
+}
+
+// 生成订阅源时的频道信息
+export interface FeedChannel {
+  title: string
+  link: string  // 网站地址
+  url: string  // 订阅源自身的地址
+  description?: string
+  updated: Date
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderRSS(channel: FeedChannel, entries: FeedEntry[]): string {
+  const items = entries.map(entry => {
+    const date = entry.published || entry.updated
+    return '<item>' +
+      `<title>${escapeXml(entry.title)}</title>` +
+      `<link>${escapeXml(entry.link)}</link>` +
+      `<guid isPermaLink="false">${escapeXml(entry.id)}</guid>` +
+      `<description>${escapeXml(entry.description)}</description>` +
+      (entry.author ? `<dc:creator>${escapeXml(entry.author)}</dc:creator>` : '') +
+      entry.categories.map(category => `<category>${escapeXml(category)}</category>`).join('') +
+      (date ? `<pubDate>${date.toUTCString()}</pubDate>` : '') +
+      '</item>'
+  })
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:atom="http://www.w3.org/2005/Atom"><channel>' +
+    `<title>${escapeXml(channel.title)}</title>` +
+    `<link>${escapeXml(channel.link)}</link>` +
+    `<description>${escapeXml(channel.description || channel.title)}</description>` +
+    `<atom:link href="${escapeXml(channel.url)}" rel="self" type="application/rss+xml"/>` +
+    `<lastBuildDate>${channel.updated.toUTCString()}</lastBuildDate>` +
+    items.join('') +
+    '</channel></rss>'
+}
+
+function renderAtom(channel: FeedChannel, entries: FeedEntry[]): string {
+  const items = entries.map(entry => {
+    const published = entry.published || entry.updated || channel.updated
+    return '<entry>' +
+      `<title>${escapeXml(entry.title)}</title>` +
+      `<link href="${escapeXml(entry.link)}"/>` +
+      `<id>${escapeXml(entry.link || entry.id)}</id>` +
+      `<published>${published.toISOString()}</published>` +
+      `<updated>${(entry.updated || published).toISOString()}</updated>` +
+      (entry.author ? `<author><name>${escapeXml(entry.author)}</name></author>` : '') +
+      entry.categories.map(category => `<category term="${escapeXml(category)}"/>`).join('') +
+      `<summary>${escapeXml(entry.description)}</summary>` +
+      '</entry>'
+  })
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<feed xmlns="http://www.w3.org/2005/Atom">' +
+    `<title>${escapeXml(channel.title)}</title>` +
+    (channel.description ? `<subtitle>${escapeXml(channel.description)}</subtitle>` : '') +
+    `<link href="${escapeXml(channel.link)}"/>` +
+    `<link href="${escapeXml(channel.url)}" rel="self"/>` +
+    `<id>${escapeXml(channel.url)}</id>` +
+    `<updated>${channel.updated.toISOString()}</updated>` +
+    items.join('') +
+    '</feed>'
+}
+
+// 生成 RSS 2.0 或 Atom 订阅源，内容按纯文本输出
+export function renderFeed(format: 'rss' | 'atom', channel: FeedChannel, entries: FeedEntry[]): string {
+  return format === 'atom' ? renderAtom(channel, entries) : renderRSS(channel, entries)
+}
@@ -0,0 +1,456 @@
+// 订阅匹配规则：支持 AND / OR / NOT、括号、"精确短语"、-排除词、/正则/ 和字段限定
+// 例：VPS AND 日本 NOT 出、title:"独立服务器" -推广、/\d+G内存/i、author:张三 OR category:交易
+// 交易帖还可以按解析出的价格和配置筛选：price<50 ram>=4G loc:JP dir:出 cycle:年
+import { Currency, normalizeTradeValue, parseTradeValue, TradeInfo, TradeNumberField, TradeTextField } from './trade'
+
+export type RuleField = 'text' | 'title' | 'desc' | 'author' | 'category' | TradeTextField
+
+export type CompareOperator = '<' | '<=' | '>' | '>=' | '='
+
+export type RuleNode =
+  | { type: 'and' | 'or'; children: RuleNode[] }
+  | { type: 'not'; child: RuleNode }
+  | { type: 'term'; field: RuleField; value: string }
+  | { type: 'regex'; field: RuleField; regex: RegExp }
+  | { type: 'compare'; field: TradeNumberField; operator: CompareOperator; value: number; currency?: Currency }
+
+// 规则匹配时使用的帖子字段
+export interface RuleDocument {
+  title: string
+  description: string
+  author: string
+  category: string[]  // 分类标识及其中文名
+  trade?: TradeInfo  // 交易帖的解析结果
+}
+
+export interface RuleOptions {
+  allowRegex?: boolean
+}
+
+export class RuleSyntaxError extends Error {
+  name = 'RuleSyntaxError'
+}
+
+const fieldAliases: Record<string, RuleField> = {
+  title: 'title',
+  标题: 'title',
+  desc: 'desc',
+  内容: 'desc',
+  author: 'author',
+  作者: 'author',
+  category: 'category',
+  分类: 'category',
+  loc: 'location',
+  location: 'location',
+  地区: 'location',
+  dir: 'direction',
+  方向: 'direction',
+  cycle: 'cycle',
+  周期: 'cycle'
+}
+
+const compareAliases: Record<string, TradeNumberField> = {
+  price: 'price',
+  价格: 'price',
+  cpu: 'cores',
+  cores: 'cores',
+  核心: 'cores',
+  ram: 'ram',
+  内存: 'ram',
+  disk: 'disk',
+  硬盘: 'disk',
+  bw: 'bandwidth',
+  带宽: 'bandwidth'
+}
+
+const tradeFieldNames: Record<TradeTextField, string> = { location: '地区', direction: '交易方向', cycle: '付款周期' }
+
+// 正则表达式规则的最大长度
+const MAX_REGEX_LENGTH = 100
+
+// 检查是否有重复的分组内还包含重复，如 (a+)+、(\w*){2,}，这类正则在不匹配时会大量回溯，阻塞整个进程
+function hasNestedQuantifier(source: string): boolean {
+  const groups: boolean[] = []  // 每层未闭合的分组内是否出现过重复
+  let group = false  // 前一个字符是否为包含重复的分组
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    const quantifier = char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(source.slice(i)))
+    if (quantifier) {
+      if (group) return true
+      if (groups.length) groups[groups.length - 1] = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const repeated = groups.pop() || false
+      if (repeated && groups.length) groups[groups.length - 1] = true
+      group = repeated
+      continue
+    } else if (char === '\\') {
+      i++
+    } else if (char === '[') {
+      // 跳过字符类，其中的括号和量词都是普通字符
+      while (++i < source.length && source[i] !== ']') {
+        if (source[i] === '\\') i++
+      }
+    }
+    group = false
+  }
+  return false
+}
+
+type Token =
+  | { type: 'and' | 'or' | 'not' | 'lparen' | 'rparen' }
+  | { type: 'term'; field: RuleField; value: string; negate: boolean }
+  | { type: 'regex'; field: RuleField; source: string; flags: string; negate: boolean }
+  | { type: 'compare'; field: TradeNumberField; operator: CompareOperator; value: string; negate: boolean }
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+    if (char === '(') {
+      tokens.push({ type: 'lparen' })
+      i++
+      continue
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen' })
+      i++
+      continue
+    }
+
+    // 排除词前缀
+    let negate = false
+    if (char === '-' && i + 1 < source.length && !/\s/.test(source[i + 1])) {
+      negate = true
+      i++
+    }
+
+    // 字段限定前缀
+    let field: RuleField = 'text'
+    const prefix = /^([a-z]+|[一-龥]{2}):/i.exec(source.slice(i))
+    if (prefix && fieldAliases[prefix[1].toLowerCase()]) {
+      field = fieldAliases[prefix[1].toLowerCase()]
+      i += prefix[0].length
+    }
+
+    if (source[i] === '"') {
+      const end = source.indexOf('"', i + 1)
+      if (end === -1) {
+        throw new RuleSyntaxError('引号未闭合')
+      }
+      const value = source.slice(i + 1, end)
+      if (!value.trim()) {
+        throw new RuleSyntaxError('引号内的短语不能为空')
+      }
+      tokens.push({ type: 'term', field, value, negate })
+      i = end + 1
+      continue
+    }
+
+    if (source[i] === '/') {
+      let end = i + 1
+      while (end < source.length && source[end] !== '/') {
+        if (source[end] === '\\') end++
+        end++
+      }
+      if (end >= source.length) {
+        throw new RuleSyntaxError('正则表达式缺少结尾的 /')
+      }
+      const flags = /^[a-z]*/i.exec(source.slice(end + 1))[0]
+      tokens.push({ type: 'regex', field, source: source.slice(i + 1, end), flags, negate })
+      i = end + 1 + flags.length
+      continue
+    }
+
+    let end = i
+    while (end < source.length && !/[\s()]/.test(source[end])) end++
+    const word = source.slice(i, end)
+    i = end
+
+    if (!word) {
+      throw new RuleSyntaxError(field === 'text' ? '排除符号 - 后缺少关键词' : '字段限定后缺少关键词')
+    }
+    const compare = field === 'text' && /^([a-z]+|[一-龥]{2})(<=|>=|<|>|=)(.*)$/i.exec(word)
+    if (compare && compareAliases[compare[1].toLowerCase()]) {
+      tokens.push({
+        type: 'compare',
+        field: compareAliases[compare[1].toLowerCase()],
+        operator: compare[2] as CompareOperator,
+        value: compare[3],
+        negate
+      })
+    } else if (!negate && field === 'text' && (word === 'AND' || word === '&&')) {
+      tokens.push({ type: 'and' })
+    } else if (!negate && field === 'text' && (word === 'OR' || word === '||')) {
+      tokens.push({ type: 'or' })
+    } else if (!negate && field === 'text' && (word === 'NOT' || word === '!')) {
+      tokens.push({ type: 'not' })
+    } else {
+      tokens.push({ type: 'term', field, value: word, negate })
+    }
+  }
+
+  return tokens
+}
+
+class Parser {
+  private index = 0
+
+  constructor(private tokens: Token[], private options: RuleOptions) {}
+
+  parse(): RuleNode {
+    if (this.tokens.length === 0) {
+      throw new RuleSyntaxError('规则不能为空')
+    }
+    const node = this.parseOr()
+    if (this.index < this.tokens.length) {
+      throw new RuleSyntaxError(this.peek().type === 'rparen' ? '多余的右括号' : '无法解析的规则')
+    }
+    return node
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private parseOr(): RuleNode {
+    const children = [this.parseAnd()]
+    while (this.peek()?.type === 'or') {
+      this.index++
+      children.push(this.parseAnd())
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children }
+  }
+
+  private parseAnd(): RuleNode {
+    const children = [this.parseUnary()]
+    while (true) {
+      const token = this.peek()
+      if (!token || token.type === 'or' || token.type === 'rparen') break
+      // 相邻的条件之间默认为 AND
+      if (token.type === 'and') this.index++
+      children.push(this.parseUnary())
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  private parseUnary(): RuleNode {
+    const token = this.peek()
+    if (!token) {
+      throw new RuleSyntaxError('运算符后缺少条件')
+    }
+    if (token.type === 'not') {
+      this.index++
+      return { type: 'not', child: this.parseUnary() }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): RuleNode {
+    const token = this.tokens[this.index++]
+    switch (token.type) {
+      case 'lparen': {
+        const node = this.parseOr()
+        if (this.peek()?.type !== 'rparen') {
+          throw new RuleSyntaxError('括号未闭合')
+        }
+        this.index++
+        return node
+      }
+      case 'term': {
+        let value = token.value
+        if (token.field in tradeFieldNames) {
+          const field = token.field as TradeTextField
+          value = normalizeTradeValue(field, value)
+          if (!value) {
+            throw new RuleSyntaxError(`无法识别的${tradeFieldNames[field]} "${token.value}"`)
+          }
+        }
+        const node: RuleNode = { type: 'term', field: token.field, value: value.toLowerCase() }
+        return token.negate ? { type: 'not', child: node } : node
+      }
+      case 'compare': {
+        const parsed = parseTradeValue(token.field, token.value)
+        if (!parsed) {
+          throw new RuleSyntaxError(`无法识别的筛选值 "${token.value}"，如 price<50、ram>=4G、bw>=1G`)
+        }
+        const node: RuleNode = { type: 'compare', field: token.field, operator: token.operator, ...parsed }
+        return token.negate ? { type: 'not', child: node } : node
+      }
+      case 'regex': {
+        if (this.options.allowRegex === false) {
+          throw new RuleSyntaxError('未启用正则表达式规则')
+        }
+        if (token.source.length > MAX_REGEX_LENGTH) {
+          throw new RuleSyntaxError(`正则表达式过长，最多 ${MAX_REGEX_LENGTH} 个字符`)
+        }
+        if (hasNestedQuantifier(token.source)) {
+          throw new RuleSyntaxError('正则表达式不能在重复的分组内再使用重复，如 (a+)+')
+        }
+        let regex: RegExp
+        try {
+          regex = new RegExp(token.source, token.flags.replace(/[gy]/g, ''))
+        } catch (error) {
+          throw new RuleSyntaxError(`正则表达式无效：${error.message}`)
+        }
+        const node: RuleNode = { type: 'regex', field: token.field, regex }
+        return token.negate ? { type: 'not', child: node } : node
+      }
+      case 'rparen':
+        throw new RuleSyntaxError('多余的右括号')
+      default:
+        throw new RuleSyntaxError(`${token.type.toUpperCase()} 缺少左侧的条件`)
+    }
+  }
+}
+
+// 判断规则是否包含正向条件，只有排除条件的规则会匹配几乎所有帖子
+function hasPositive(node: RuleNode): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.some(hasPositive)
+    case 'or':
+      return node.children.every(hasPositive)
+    case 'not':
+      return false
+    default:
+      return true
+  }
+}
+
+// 解析规则，语法错误时抛出 RuleSyntaxError
+export function parseRule(source: string, options: RuleOptions = {}): RuleNode {
+  const node = new Parser(tokenize(source), options).parse()
+  if (!hasPositive(node)) {
+    throw new RuleSyntaxError('规则不能只包含排除条件')
+  }
+  return node
+}
+
+function getFieldValues(doc: RuleDocument, field: RuleField): string[] {
+  switch (field) {
+    case 'title':
+      return [doc.title]
+    case 'desc':
+      return [doc.description]
+    case 'author':
+      return [doc.author]
+    case 'category':
+      return doc.category
+    case 'location':
+    case 'direction':
+    case 'cycle':
+      return [doc.trade?.[field] || '']
+    default:
+      return [`${doc.title} ${doc.description}`]
+  }
+}
+
+export function matchRule(node: RuleNode, doc: RuleDocument): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchRule(child, doc))
+    case 'or':
+      return node.children.some(child => matchRule(child, doc))
+    case 'not':
+      return !matchRule(node.child, doc)
+    case 'term':
+      // 分类和交易信息按名称完全匹配，其余字段按子串匹配
+      if (node.field === 'category' || node.field in tradeFieldNames) {
+        return getFieldValues(doc, node.field).some(value => value.toLowerCase() === node.value)
+      }
+      return getFieldValues(doc, node.field).some(value => (value || '').toLowerCase().includes(node.value))
+    case 'regex':
+      return getFieldValues(doc, node.field).some(value => node.regex.test(value || ''))
+    case 'compare':
+      return compareTrade(node, doc.trade)
+  }
+}
+
+// 比较交易帖的价格和配置，没有解析出对应信息的帖子不匹配；指定货币时只比较同一货币的价格
+function compareTrade(node: Extract<RuleNode, { type: 'compare' }>, trade?: TradeInfo): boolean {
+  const actual = trade?.[node.field]
+  if (actual === undefined || actual === null) return false
+  if (node.currency && trade.currency !== node.currency) return false
+  switch (node.operator) {
+    case '<':
+      return actual < node.value
+    case '<=':
+      return actual <= node.value
+    case '>':
+      return actual > node.value
+    case '>=':
+      return actual >= node.value
+    default:
+      return actual === node.value
+  }
+}
+
+// 只有标题和内容可以通过全文索引查找
+function isTextField(field: RuleField): boolean {
+  return field === 'text' || field === 'title' || field === 'desc'
+}
+
+// 提取规则的索引词：帖子文本必须包含其中至少一个词规则才可能匹配
+// 返回 null 表示规则无法建立索引（如正则、作者、分类或交易筛选条件），需要对每个帖子完整匹配
+export function getRuleAnchors(node: RuleNode): string[] | null {
+  switch (node.type) {
+    case 'and': {
+      // 任取一个可索引的子条件即可，优先选择最长的词以减少候选
+      let best: string[] | null = null
+      for (const child of node.children) {
+        const anchors = getRuleAnchors(child)
+        if (anchors && (!best || Math.min(...anchors.map(a => a.length)) > Math.min(...best.map(a => a.length)))) {
+          best = anchors
+        }
+      }
+      return best
+    }
+    case 'or': {
+      const result: string[] = []
+      for (const child of node.children) {
+        const anchors = getRuleAnchors(child)
+        if (!anchors) return null
+        result.push(...anchors)
+      }
+      return result
+    }
+    case 'term':
+      return isTextField(node.field) ? [node.value] : null
+    default:
+      return null
+  }
+}
+
+// 将未指定字段的条件限定到指定字段，如只搜索标题
+export function scopeRule(node: RuleNode, field: RuleField): RuleNode {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return { type: node.type, children: node.children.map(child => scopeRule(child, field)) }
+    case 'not':
+      return { type: 'not', child: scopeRule(node.child, field) }
+    default:
+      return node.field === 'text' ? { ...node, field } : node
+  }
+}
+
+// 提取规则中正向的文本词，用于计算相关度
+export function getRuleTerms(node: RuleNode): { field: RuleField; value: string }[] {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(getRuleTerms)
+    case 'term':
+      return isTextField(node.field) ? [{ field: node.field, value: node.value }] : []
+    default:
+      return []
+  }
+}
@@ -0,0 +1,117 @@
+// 全文索引的分词和相关度计算：英文和数字按整词，中日韩文字按相邻两字切分
+// 例：「出日本VPS 8G内存」→ 出日 日本 vps 8g 内存
+// 英文和数字另外按相邻两个字符建立索引（如 #vp #ps），使 vps 也能找到 HostVPS，与规则的子串匹配一致
+
+// 假名、汉字和韩文
+const cjkRange = '\\u3040-\\u30FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF\\uAC00-\\uD7AF'
+const cjk = new RegExp(`[${cjkRange}]`)
+const segmentPattern = new RegExp(`[${cjkRange}]+|[^${cjkRange}]+`, 'g')
+
+// 超长的词（如链接和编码内容）不参与相关度计算，但仍按两个字符建立索引
+const MAX_TOKEN_LENGTH = 32
+
+// 两个字符的索引词加上前缀，避免与整词混淆；分词时 # 不会出现在词中
+const GRAM_PREFIX = '#'
+
+// 索引中每个词在标题和内容中出现的次数
+export interface TermCount {
+  term: string
+  title: number
+  desc: number
+}
+
+function splitWords(text: string): string[][] {
+  const words = text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+  return words.map(word => word.match(segmentPattern) || [])
+}
+
+// 切分文本，单个汉字只在单独出现时作为一个词
+export function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  for (const segments of splitWords(text || '')) {
+    for (const segment of segments) {
+      if (!cjk.test(segment)) {
+        if (segment.length <= MAX_TOKEN_LENGTH) tokens.push(segment)
+        continue
+      }
+      const chars = Array.from(segment)
+      if (chars.length === 1) {
+        tokens.push(chars[0])
+        continue
+      }
+      for (let i = 0; i < chars.length - 1; i++) {
+        tokens.push(chars[i] + chars[i + 1])
+      }
+    }
+  }
+  return tokens
+}
+
+// 英文和数字的两字符索引词
+function grams(segment: string): string[] {
+  const chars = Array.from(segment)
+  const result: string[] = []
+  for (let i = 0; i < chars.length - 1; i++) {
+    result.push(GRAM_PREFIX + chars[i] + chars[i + 1])
+  }
+  return result
+}
+
+// 切分文本中的英文和数字，得到两字符索引词
+function tokenizeGrams(text: string): string[] {
+  return splitWords(text || '').flat().filter(segment => !cjk.test(segment)).flatMap(grams)
+}
+
+// 切分查询词用于计算相关度，包含无法用索引查找的单个汉字时返回 null
+export function tokenizeQuery(text: string): string[] | null {
+  const tokens: string[] = []
+  for (const segments of splitWords(text || '')) {
+    for (const segment of segments) {
+      const chars = Array.from(segment)
+      if (cjk.test(segment) && chars.length === 1) return null
+      if (!cjk.test(segment) && segment.length > MAX_TOKEN_LENGTH) return null
+    }
+  }
+  for (const token of tokenize(text)) {
+    if (!tokens.includes(token)) tokens.push(token)
+  }
+  return tokens.length > 0 ? tokens : null
+}
+
+// 查找包含查询内容的帖子时使用的索引词：中日韩文字按相邻两字，英文和数字按两字符索引词
+// 帖子文本包含查询内容时一定包含全部索引词；包含单个汉字或单个字母、数字时无法使用索引，返回 null
+export function getIndexTerms(text: string): string[] | null {
+  const terms: string[] = []
+  for (const segments of splitWords(text || '')) {
+    for (const segment of segments) {
+      const chars = Array.from(segment)
+      if (chars.length === 1) return null
+      const tokens = cjk.test(segment) ? tokenize(segment) : grams(segment)
+      for (const token of tokens) {
+        if (!terms.includes(token)) terms.push(token)
+      }
+    }
+  }
+  return terms.length > 0 ? terms : null
+}
+
+// 统计帖子中每个词的出现次数
+export function countTerms(title: string, description: string): TermCount[] {
+  const counts: Map<string, TermCount> = new Map()
+  const add = (token: string, field: 'title' | 'desc') => {
+    const count = counts.get(token) || { term: token, title: 0, desc: 0 }
+    count[field] += 1
+    counts.set(token, count)
+  }
+  for (const token of [...tokenize(title), ...tokenizeGrams(title)]) add(token, 'title')
+  for (const token of [...tokenize(description), ...tokenizeGrams(description)]) add(token, 'desc')
+  return [...counts.values()]
+}
+
+// BM25 相关度，标题中的出现次数按 3 倍计算
+export function scoreTerm(count: Pick<TermCount, 'title' | 'desc'>, documentFrequency: number, total: number): number {
+  const k1 = 1.2
+  const frequency = count.title * 3 + count.desc
+  const idf = Math.log(1 + (Math.max(total, documentFrequency) - documentFrequency + 0.5) / (documentFrequency + 0.5))
+  return idf * frequency * (k1 + 1) / (frequency + k1)
+}
@@ -0,0 +1,61 @@
+// 重发检测：去掉链接、价格、标点和空格后按相邻两个字符切分，用 Jaccard 系数比较标题和内容开头的相似度
+// 例：「【出】日本 2C2G 30元/月」和「出 日本 2C2G 28元/月」都归一为「出日本2c2g」，标题相似度为 1
+
+const SHINGLE_SIZE = 2
+// 内容只比较开头部分，避免长帖中的签名和附言影响结果
+const DESCRIPTION_LENGTH = 300
+
+// 价格和付款周期，如 ¥30、30元/月、$4.99/mo、28/月，重发时常常只改价格
+const CYCLE = '\\s*\\/\\s*(?:月|季|半年|年|mo|month|yr|year)'
+const PRICE_PATTERN = new RegExp(
+  `(?:[¥$€]\\s*\\d+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?\\s*(?:元|块|刀|美元|美刀|美金|欧元?|rmb|cny|usd|eur|[$€]))(?:${CYCLE})?|\\d+(?:\\.\\d+)?${CYCLE}`,
+  'gi'
+)
+
+export function normalizeText(text: string): string {
+  return (text || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(PRICE_PATTERN, '')
+    .replace(/[^\p{L}\p{N}]+/gu, '')
+}
+
+export function shingles(text: string): Set<string> {
+  const chars = Array.from(text)
+  const result: Set<string> = new Set()
+  if (chars.length > 0 && chars.length <= SHINGLE_SIZE) result.add(text)
+  for (let i = 0; i + SHINGLE_SIZE <= chars.length; i++) {
+    result.add(chars.slice(i, i + SHINGLE_SIZE).join(''))
+  }
+  return result
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  for (const shingle of a) {
+    if (b.has(shingle)) shared++
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+// 帖子的切分结果，比较多个帖子时可以复用
+export interface Shingles {
+  title: Set<string>
+  description: Set<string>
+}
+
+export function getShingles(title: string, description = ''): Shingles {
+  return {
+    title: shingles(normalizeText(title)),
+    description: shingles(normalizeText(description).slice(0, DESCRIPTION_LENGTH))
+  }
+}
+
+// 标题和内容的相似度取较低者，任一帖子没有内容时只比较标题
+export function similarity(a: Shingles, b: Shingles): number {
+  const title = jaccard(a.title, b.title)
+  if (a.description.size === 0 || b.description.size === 0) return title
+  return Math.min(title, jaccard(a.description, b.description))
+}
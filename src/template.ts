@@ -0,0 +1,54 @@
+// 消息模板：{title}、{desc:80} 等占位符，冒号后的数字表示按字素截断的长度
+import { truncateText } from './content'
+
+export interface MessageTemplate {
+  header?: string  // 消息开头
+  item?: string  // 每个帖子
+  footer?: string  // 消息结尾
+}
+
+export type TemplatePart = keyof MessageTemplate
+
+// 各部分可用的占位符
+export const templateFields: Record<TemplatePart, string[]> = {
+  header: ['count', 'category', 'keyword'],
+  item: ['index', 'title', 'author', 'category', 'time', 'link', 'desc', 'rules', 'source', 'repost'],
+  footer: ['count', 'category', 'keyword']
+}
+
+export const MAX_TEMPLATE_LENGTH = 500
+
+export class TemplateError extends Error {
+  name = 'TemplateError'
+}
+
+const placeholder = /\{(\w+)(?::(\d+))?\}/g
+
+// 校验模板，错误时抛出 TemplateError
+export function validateTemplate(template: string, part: TemplatePart): void {
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new TemplateError(`模板长度不能超过 ${MAX_TEMPLATE_LENGTH} 个字符`)
+  }
+
+  const fields = templateFields[part]
+  for (const [match, name, length] of template.matchAll(placeholder)) {
+    if (!fields.includes(name)) {
+      throw new TemplateError(`未知的占位符 ${match}，可用：${fields.map(field => `{${field}}`).join(' ')}`)
+    }
+    if (length !== undefined && Number(length) === 0) {
+      throw new TemplateError(`占位符 ${match} 的长度必须大于 0`)
+    }
+  }
+
+  if (/[{}]/.test(template.replace(placeholder, ''))) {
+    throw new TemplateError('模板中有未闭合或无法识别的花括号')
+  }
+}
+
+// 替换占位符，未提供的值替换为空
+export function renderTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(placeholder, (_, name: string, length?: string) => {
+    const value = String(values[name] ?? '')
+    return length ? truncateText(value, Number(length)) : value
+  })
+}
@@ -0,0 +1,124 @@
+// 时区相关的时间计算，基于 Intl 获取指定时区的本地时间
+
+// 校验 HH:mm 格式的时间
+export function parseTimeOfDay(value: string): { hour: number; minute: number } | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim())
+  if (!match) return null
+  const hour = Number(match[1])
+  const minute = Number(match[2])
+  if (hour > 23 || minute > 59) return null
+  return { hour, minute }
+}
+
+// 按时区缓存格式化器，创建 Intl.DateTimeFormat 的开销远大于格式化本身
+const formatters: Map<string, Intl.DateTimeFormat> = new Map()
+
+// 获取时区相对 UTC 的偏移（分钟）
+export function getTimezoneOffset(date: Date, timeZone: string): number {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  const parts = formatter.formatToParts(date)
+  const get = (type: string) => Number(parts.find(part => part.type === type).value)
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return Math.round((local - Math.floor(date.getTime() / 1000) * 1000) / 60000)
+}
+
+// 获取指定时区中当天已过去的分钟数
+export function getLocalMinutes(date: Date, timeZone: string): number {
+  const local = new Date(date.getTime() + getTimezoneOffset(date, timeZone) * 60000)
+  return local.getUTCHours() * 60 + local.getUTCMinutes()
+}
+
+// 校验时区名称
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// 解析 2h、30m、1d 格式的时长，返回毫秒
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*(m|min|h|d)?$/i.exec(value.trim())
+  if (!match) return null
+  const amount = Number(match[1])
+  const unit = (match[2] || 'h').toLowerCase()
+  const ms = amount * (unit === 'd' ? 86400000 : unit === 'h' ? 3600000 : 60000)
+  return ms > 0 ? ms : null
+}
+
+// 计算指定时区中下一次到达 HH:mm 的时间
+export function getNextDailyTime(now: Date, time: string, timeZone: string): Date {
+  const { hour, minute } = parseTimeOfDay(time) || { hour: 9, minute: 0 }
+  const offset = getTimezoneOffset(now, timeZone)
+  const local = new Date(now.getTime() + offset * 60000)
+  let target = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), hour, minute) - offset * 60000
+  if (target <= now.getTime()) target += 24 * 60 * 60 * 1000
+
+  // 跨越夏令时切换时按目标时刻的偏移修正
+  const correction = getTimezoneOffset(new Date(target), timeZone) - offset
+  return new Date(target - correction * 60000)
+}
+
+// 计算指定时区中的下一个整点，Asia/Kolkata 等半小时偏移的时区整点与 UTC 不同
+export function getNextHour(now: Date, timeZone: string): Date {
+  const offset = getTimezoneOffset(now, timeZone) * 60000
+  const hour = 60 * 60 * 1000
+  return new Date((Math.floor((now.getTime() + offset) / hour) + 1) * hour - offset)
+}
+
+// 判断当前是否处于免打扰时段（可跨越午夜），是则返回时段结束时间
+export function getQuietEnd(now: Date, start: string, end: string, timeZone: string): Date | null {
+  const startTime = parseTimeOfDay(start)
+  const endTime = parseTimeOfDay(end)
+  if (!startTime || !endTime) return null
+
+  const minutes = getLocalMinutes(now, timeZone)
+  const from = startTime.hour * 60 + startTime.minute
+  const to = endTime.hour * 60 + endTime.minute
+  const inside = from <= to
+    ? minutes >= from && minutes < to
+    : minutes >= from || minutes < to
+  return inside ? getNextDailyTime(now, end, timeZone) : null
+}
+
+// 解析日期：YYYY-MM-DD、YYYY-MM-DD HH:mm 或 7d、12h、30m 等相对时长（表示距今多久之前）
+// endOfDay 为 true 时，只有日期的输入取当天结束
+export function parseDateInput(value: string, timeZone: string, now = new Date(), endOfDay = false): Date | null {
+  const input = value.trim()
+  if (/^\d+(?:\.\d+)?\s*(m|min|h|d)$/i.test(input)) {
+    return new Date(now.getTime() - parseDuration(input))
+  }
+
+  const match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/.exec(input)
+  if (!match) return null
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  const hour = match[4] ? Number(match[4]) : 0
+  const minute = match[5] ? Number(match[5]) : 0
+  if (hour > 23 || minute > 59) return null
+
+  const local = Date.UTC(year, month - 1, day, hour, minute)
+  const check = new Date(local)
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null
+
+  // 先按当前偏移换算，跨越夏令时切换时按目标时刻的偏移修正
+  const offset = getTimezoneOffset(new Date(local), timeZone)
+  let time = local - offset * 60000
+  time -= (getTimezoneOffset(new Date(time), timeZone) - offset) * 60000
+  if (endOfDay && !match[4]) time += 24 * 60 * 60 * 1000 - 1
+  return new Date(time)
+}
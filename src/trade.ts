@@ -0,0 +1,296 @@
+// 交易帖解析：从标题中提取交易方向、价格、付款周期和 VPS 配置，标题中没有的信息再从内容中查找
+// 例：「【出】日本东京 2C2G 40G SSD 1Gbps 30元/月」→ 出、30 CNY 月付、2 核 2G 内存 40G 硬盘 1000Mbps、JP
+
+export type TradeDirection = 'sell' | 'buy'
+export type Currency = 'CNY' | 'USD' | 'EUR'
+export type BillingCycle = 'month' | 'quarter' | 'halfyear' | 'year' | 'once'
+
+export interface TradeInfo {
+  direction?: TradeDirection
+  price?: number
+  currency?: Currency  // 只写数字的价格按人民币计
+  cycle?: BillingCycle
+  cores?: number
+  ram?: number  // GB
+  disk?: number  // GB
+  bandwidth?: number  // Mbps
+  location?: string  // 国家或地区代码，如 JP
+}
+
+// 可以比较大小的字段
+export type TradeNumberField = 'price' | 'cores' | 'ram' | 'disk' | 'bandwidth'
+
+// 只能完全匹配的字段
+export type TradeTextField = 'direction' | 'cycle' | 'location'
+
+export const currencySymbols: Record<Currency, string> = { CNY: '¥', USD: '$', EUR: '€' }
+export const cycleNames: Record<BillingCycle, string> = { month: '月', quarter: '季', halfyear: '半年', year: '年', once: '一次性' }
+export const directionNames: Record<TradeDirection, string> = { sell: '出', buy: '收' }
+
+// 地区代码：中文名和英文名不区分大小写，代码只匹配大写，避免误判普通单词
+const locations: [string, string, RegExp, RegExp?][] = [
+  ['HK', '香港', /香港|港区|hong\s?kong/i, /\bHKG?\b/],
+  ['JP', '日本', /日本|东京|大阪|japan|tokyo|osaka/i, /\bJP\b/],
+  ['SG', '新加坡', /新加坡|狮城|singapore/i, /\bSG\b/],
+  ['TW', '台湾', /台湾|台北|彰化|taiwan/i, /\bTW\b/],
+  ['KR', '韩国', /韩国|首尔|春川|korea|seoul/i, /\bKR\b/],
+  ['US', '美国', /美国|美西|美东|洛杉矶|圣何塞|西雅图|纽约|达拉斯|芝加哥|凤凰城|los\s?angeles|san\s?jose|seattle|new\s?york|dallas/i, /\b(?:US|USA|LAX|SJC)\b/],
+  ['DE', '德国', /德国|法兰克福|纽伦堡|germany|frankfurt/i, /\bDE\b/],
+  ['NL', '荷兰', /荷兰|阿姆斯特丹|netherlands|amsterdam/i, /\bNL\b/],
+  ['GB', '英国', /英国|伦敦|london/i, /\bUK\b/],
+  ['FR', '法国', /法国|巴黎|france|paris/i, /\bFR\b/],
+  ['RU', '俄罗斯', /俄罗斯|莫斯科|russia|moscow/i, /\bRU\b/],
+  ['CA', '加拿大', /加拿大|canada/i, /\bCA\b/],
+  ['AU', '澳大利亚', /澳大利亚|澳洲|悉尼|australia|sydney/i, /\bAU\b/],
+  ['MO', '澳门', /澳门|macau/i, /\bMO\b/],
+  ['CN', '中国大陆', /国内|大陆|内地|广州|上海|北京|深圳|杭州/, /\bCN\b/]
+]
+
+export const locationNames: Record<string, string> = Object.fromEntries(locations.map(([code, name]) => [code, name]))
+
+const number = '(\\d+(?:\\.\\d+)?)'
+// 数字前后不能紧接字母、数字或小数点，避免匹配型号中的数字
+const before = '(?<![a-z\\d.])'
+
+// 价格：货币符号在前或货币单位在后的取最先出现的，其次是带周期的数字、周期或价格关键字在前
+const currencyPatterns: [RegExp, Currency][] = [
+  [/[¥￥]|元|块|rmb|cny/i, 'CNY'],
+  [/\$|刀|美元|美刀|美金|usd/i, 'USD'],
+  [/€|欧元?|eur/i, 'EUR']
+]
+const pricePatterns = [
+  new RegExp(`(?:[¥￥$€]|rmb|usd|eur)\\s*${number}(?![\\d.a-z])`, 'i'),
+  new RegExp(`${before}${number}\\s*(?:元|块|rmb|cny|\\$|刀|美元|美刀|美金|usd|€|欧元?|eur)`, 'i'),
+  new RegExp(`${before}${number}\\s*\\/\\s*(?:月|季|半年|年|mo|month|yr|year)`, 'i'),
+  new RegExp(`(?:月付|季付|半年付|年付|价格|售价|预算|出价|一口价)\\s*[:：]?\\s*${number}`, 'i')
+]
+
+// 周期按在文本中出现的先后选择，"半年付" 先于其中的 "年付" 匹配
+const cyclePatterns: [RegExp, BillingCycle][] = [
+  [/月付|包月|每月|\/\s*(?:月|mo(?:nth)?\b)|monthly/i, 'month'],
+  [/季付|每季|\/\s*季|quarterly/i, 'quarter'],
+  [/半年付|每半年|\/\s*半年|semi-?annually/i, 'halfyear'],
+  [/年付|包年|每年|\/\s*(?:年|yr\b|year\b)|yearly|annually/i, 'year'],
+  [/一次性|永久|终身|买断|lifetime|one-?time/i, 'once']
+]
+
+// 配置：2C4G、1H1G20G、2核2.5G 这样的组合写法，以及单独标注的核心、内存、硬盘和带宽
+// 组合写法后的容量如果是带宽或流量则不作为硬盘
+const notDisk = '(?!\\s*(?:bps|b\\/s|口|端口|带宽|流量|traffic|bw)|[a-z])'
+const combinedPattern = new RegExp(`${before}(\\d+)\\s*(?:c|h|核|vcpu|vcores?|v)\\s*\\/?\\s*${number}\\s*(gb?|mb?)(?![a-z])(?:\\s*[\\/+]?\\s*${number}\\s*(gb?|tb?)${notDisk})?`, 'i')
+const corePatterns = [
+  new RegExp(`${before}(\\d+)\\s*(?:核心?|vcpus?|vcores?|cores?|cpus?)(?![a-z])`, 'i'),
+  /(?:cpu|核心)\s*[:：]?\s*(\d+)\s*(?:核|c|vcpu)?(?![a-z\d])/i
+]
+const ramPatterns = [
+  new RegExp(`${before}${number}\\s*(gb?|mb?)\\s*(?:内存|运存|ram|mem(?:ory)?)`, 'i'),
+  new RegExp(`(?:内存|ram|mem(?:ory)?)\\s*[:：]?\\s*${number}\\s*(gb?|mb?)(?![a-z])`, 'i')
+]
+const diskPatterns = [
+  new RegExp(`${before}${number}\\s*(gb?|tb?)\\s*(?:ssd|nvme|hdd|sata|硬盘|磁盘|存储|disk)`, 'i'),
+  new RegExp(`(?:硬盘|磁盘|存储|disk|ssd|nvme)\\s*[:：]?\\s*${number}\\s*(gb?|tb?)${notDisk}`, 'i')
+]
+const bandwidthPatterns = [
+  new RegExp(`${before}${number}\\s*(g|m)(?:bps|b\\/s)`, 'i'),
+  new RegExp(`${before}${number}\\s*(g|m|兆)\\s*(?:带宽|大口|端口|口|独享|共享)`, 'i'),
+  new RegExp(`(?:带宽|bandwidth|端口)\\s*[:：]?\\s*${number}\\s*(g|m|兆)`, 'i')
+]
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// 去掉未识别的字段
+function compact<T extends object>(info: T): T {
+  return Object.fromEntries(Object.entries(info).filter(([, value]) => value !== undefined)) as T
+}
+
+// 容量统一为 GB，带宽统一为 Mbps，无法识别的单位返回 null
+export function convertUnit(value: number, unit: string, field: 'ram' | 'disk' | 'bandwidth'): number | null {
+  const prefix = (unit || '').toLowerCase()[0]
+  if (field === 'bandwidth') {
+    if (!prefix || prefix === 'm' || unit === '兆') return round(value)
+    return prefix === 'g' ? round(value * 1000) : null
+  }
+  if (!prefix || prefix === 'g') return round(value)
+  if (prefix === 'm') return round(value / 1024)
+  if (prefix === 't' && field === 'disk') return round(value * 1024)
+  return null
+}
+
+function execFirst(patterns: RegExp[], text: string): RegExpExecArray | null {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text)
+    if (match) return match
+  }
+  return null
+}
+
+function parseDirection(text: string): TradeDirection | undefined {
+  // 标题开头的标记，如 [出]、【收】、出个、WTS
+  const head = text.replace(/^[\s\[【(（「]+/, '')
+  if (/^(?:收购|求购|收|求|wtb\b|buy\b)/i.test(head)) return 'buy'
+  if (/^(?:出售|出|售|转让|甩|wts\b|sell\b)/i.test(head)) return 'sell'
+  if (/收购|求购|\bwtb\b/i.test(text)) return 'buy'
+  if (/出售|转让|甩卖|\bwts\b/i.test(text)) return 'sell'
+}
+
+function parsePrice(text: string): Pick<TradeInfo, 'price' | 'currency'> {
+  const [symbol, unit] = pricePatterns.map(pattern => pattern.exec(text))
+  const match = symbol && unit
+    ? symbol.index <= unit.index ? symbol : unit
+    : symbol || unit || execFirst(pricePatterns.slice(2), text)
+  if (!match) return {}
+  const price = Number(match[1])
+  if (!isFinite(price) || price <= 0 || price > 1e6) return {}
+  const currency = currencyPatterns.find(([pattern]) => pattern.test(match[0]))?.[1] || 'CNY'
+  return { price, currency }
+}
+
+function parseCycle(text: string): BillingCycle | undefined {
+  let best: { index: number; cycle: BillingCycle } | undefined
+  for (const [pattern, cycle] of cyclePatterns) {
+    const match = pattern.exec(text)
+    if (match && (!best || match.index < best.index)) best = { index: match.index, cycle }
+  }
+  return best?.cycle
+}
+
+function parseSpecs(text: string): Pick<TradeInfo, 'cores' | 'ram' | 'disk' | 'bandwidth'> {
+  const specs: Pick<TradeInfo, 'cores' | 'ram' | 'disk' | 'bandwidth'> = {}
+  const combined = combinedPattern.exec(text)
+  if (combined) {
+    specs.cores = Number(combined[1])
+    specs.ram = convertUnit(Number(combined[2]), combined[3], 'ram') ?? undefined
+    if (combined[4]) specs.disk = convertUnit(Number(combined[4]), combined[5], 'disk') ?? undefined
+  }
+
+  const cores = execFirst(corePatterns, text)
+  if (specs.cores === undefined && cores) specs.cores = Number(cores[1])
+  const ram = execFirst(ramPatterns, text)
+  if (specs.ram === undefined && ram) specs.ram = convertUnit(Number(ram[1]), ram[2], 'ram') ?? undefined
+  const disk = execFirst(diskPatterns, text)
+  if (specs.disk === undefined && disk) specs.disk = convertUnit(Number(disk[1]), disk[2], 'disk') ?? undefined
+  const bandwidth = execFirst(bandwidthPatterns, text)
+  if (bandwidth) specs.bandwidth = convertUnit(Number(bandwidth[1]), bandwidth[2], 'bandwidth') ?? undefined
+
+  return Object.fromEntries(Object.entries(specs).filter(([, value]) => isFinite(value) && value > 0))
+}
+
+// 取文本中最先出现的地区
+function parseLocation(text: string): string | undefined {
+  let best: { index: number; code: string } | undefined
+  for (const [code, , pattern, codePattern] of locations) {
+    for (const regex of [pattern, codePattern]) {
+      const match = regex?.exec(text)
+      if (match && (!best || match.index < best.index)) best = { index: match.index, code }
+    }
+  }
+  return best?.code
+}
+
+function parseText(text: string): TradeInfo {
+  return compact<TradeInfo>({
+    direction: parseDirection(text),
+    ...parsePrice(text),
+    cycle: parseCycle(text),
+    ...parseSpecs(text),
+    location: parseLocation(text)
+  })
+}
+
+// 解析交易帖，交易方向只看标题，其余信息标题中没有时从内容开头查找
+export function parseTrade(title: string, description = ''): TradeInfo {
+  const info = parseText((title || '').normalize('NFKC'))
+  const rest = parseText((description || '').slice(0, 500).normalize('NFKC'))
+  delete rest.direction
+  // 价格和货币需要一起取
+  if (info.price !== undefined) {
+    delete rest.price
+    delete rest.currency
+  }
+  return { ...rest, ...info }
+}
+
+// 规则中的筛选值，如 ram>=4G、price<50$、bw>=1G
+export function parseTradeValue(field: TradeNumberField, value: string): { value: number; currency?: Currency } | null {
+  const match = /^([¥$€]?)(\d+(?:\.\d+)?)([a-z¥$€元刀欧兆核]*)$/i.exec(value.trim())
+  if (!match) return null
+  const amount = Number(match[2])
+  const unit = match[1] || match[3]
+  if (field === 'price') {
+    if (!unit) return { value: amount }
+    const currency = currencyPatterns.find(([pattern]) => pattern.test(unit))?.[1]
+    return currency ? { value: amount, currency } : null
+  }
+  if (match[1]) return null
+  if (field === 'cores') return !match[3] || /^(?:c|核)$/i.test(match[3]) ? { value: amount } : null
+  const converted = convertUnit(amount, unit.replace(/b(?:ps)?$/i, ''), field)
+  return converted === null ? null : { value: converted }
+}
+
+// 规则中的方向、周期和地区，支持中文名，无法识别时返回 null
+export function normalizeTradeValue(field: TradeTextField, value: string): string | null {
+  const input = value.trim()
+  switch (field) {
+    case 'direction':
+      if (/^(?:出|出售|卖|sell|wts)$/i.test(input)) return 'sell'
+      if (/^(?:收|收购|求购|买|buy|wtb)$/i.test(input)) return 'buy'
+      return null
+    case 'cycle': {
+      const cycle = cyclePatterns.find(([pattern]) => pattern.test(input))?.[1]
+      if (cycle) return cycle
+      const name = input.replace(/付$/, '')
+      return (Object.keys(cycleNames) as BillingCycle[]).find(key => key === name.toLowerCase() || cycleNames[key] === name) || null
+    }
+    case 'location': {
+      const code = input.toUpperCase()
+      if (locationNames[code]) return code
+      if (code === 'UK') return 'GB'
+      return locations.find(([, name, pattern]) => name === input || pattern.test(input))?.[0] || null
+    }
+  }
+}
+
+// 价格和周期，如 "¥30/月"，没有价格时返回空字符串
+export function formatPrice(info: TradeInfo): string {
+  if (info.price === undefined || info.price === null) return ''
+  const cycle = info.cycle && info.cycle !== 'once' ? `/${cycleNames[info.cycle]}` : info.cycle ? ' 一次性' : ''
+  return `${currencySymbols[info.currency] || ''}${info.price}${cycle}`
+}
+
+const specFormatters: [keyof TradeInfo, string, (value: number) => string][] = [
+  ['cores', '核心', value => `${value}核`],
+  ['ram', '内存', value => `${value}G`],
+  ['disk', '硬盘', value => value >= 1024 ? `${round(value / 1024)}T` : `${value}G`],
+  ['bandwidth', '带宽', value => value >= 1000 ? `${value / 1000}Gbps` : `${value}Mbps`]
+]
+
+// 格式化交易信息，如 "出 | ¥30/月 | 2核 2G内存 40G硬盘 1Gbps | 日本"
+export function formatTrade(info: TradeInfo): string {
+  const parts: string[] = []
+  if (info.direction) parts.push(directionNames[info.direction])
+  if (formatPrice(info)) parts.push(formatPrice(info))
+  const specs = specFormatters
+    .filter(([key]) => info[key])
+    .map(([key, name, format]) => format(info[key] as number) + (key === 'ram' || key === 'disk' ? name : ''))
+  if (specs.length > 0) parts.push(specs.join(' '))
+  if (info.location) parts.push(locationNames[info.location] || info.location)
+  return parts.join(' | ')
+}
+
+// 比较修改前后的交易信息，如 ["价格 ¥30/月 → ¥25/月"]，只列出前后都识别出的字段
+export function diffTrade(before: TradeInfo, after: TradeInfo): string[] {
+  const changes: string[] = []
+  const [oldPrice, newPrice] = [formatPrice(before), formatPrice(after)]
+  if (oldPrice && newPrice && oldPrice !== newPrice) changes.push(`价格 ${oldPrice} → ${newPrice}`)
+  for (const [key, name, format] of specFormatters) {
+    if (before[key] && after[key] && before[key] !== after[key]) {
+      changes.push(`${name} ${format(before[key] as number)} → ${format(after[key] as number)}`)
+    }
+  }
+  if (before.location && after.location && before.location !== after.location) {
+    changes.push(`地区 ${locationNames[before.location] || before.location} → ${locationNames[after.location] || after.location}`)
+  }
+  return changes
+}
@@ -0,0 +1,71 @@
+import { expect } from 'chai'
+import { App } from 'koishi'
+import { NodeSeekPost } from '../src'
+import { createApp, createFeedServer, FeedServer, stopApp, TestItem } from './shared'
+
+describe('edit', () => {
+  let feed: FeedServer
+  let app: App
+  const updated: [NodeSeekPost, NodeSeekPost][] = []
+
+  const item: TestItem = { id: '1', title: 'HostVPS 特价 2C8G 日本', desc: '<p>可过户 &amp; 送域名</p>限量 <b>10</b> 台' }
+
+  before(async () => {
+    feed = await createFeedServer()
+    app = await createApp({ rssUrl: feed.url })
+    app.on('nodeseek/post-updated', (post, previous) => {
+      updated.push([post, previous])
+    })
+
+    // 升级前缓存的帖子保存原始 HTML
+    const now = new Date()
+    await app.database.create('nodeseek_posts', {
+      source: 'nodeseek',
+      postId: item.id,
+      guid: item.id,
+      title: 'HostVPS  特价 2C8G  日本',
+      description: item.desc,
+      link: `https://www.nodeseek.com/post-${item.id}-1`,
+      category: 'trade',
+      author: 'seller',
+      pubDate: now,
+      createdAt: now,
+      updatedAt: now
+    })
+  })
+
+  after(async () => {
+    await stopApp(app)
+    await feed.close()
+  })
+
+  async function getPost(): Promise<NodeSeekPost> {
+    const [post] = await app.database.get('nodeseek_posts', { postId: item.id })
+    return post
+  }
+
+  it('does not treat cached raw HTML as an edit', async () => {
+    feed.items = [item]
+    expect(await app.nodeseek.update()).to.deep.equal([])
+
+    const post = await getPost()
+    expect(post.revisions).to.equal(0)
+    expect(post.title).to.equal('HostVPS 特价 2C8G 日本')
+    expect(post.description).to.equal('可过户 & 送域名\n限量 10 台')
+    expect(await app.database.get('nodeseek_post_revisions', {})).to.have.length(0)
+    expect(updated).to.have.length(0)
+  })
+
+  it('records real edits with the plain text before', async () => {
+    feed.items = [{ ...item, desc: '<p>可过户 &amp; 送域名</p>限量 <b>5</b> 台' }]
+    expect(await app.nodeseek.update()).to.deep.equal([])
+
+    const post = await getPost()
+    expect(post.revisions).to.equal(1)
+    expect(post.description).to.equal('可过户 & 送域名\n限量 5 台')
+    const revisions = await app.database.get('nodeseek_post_revisions', {})
+    expect(revisions.map(revision => revision.description)).to.deep.equal(['可过户 & 送域名\n限量 10 台'])
+    expect(updated).to.have.length(1)
+    expect(updated[0][1].description).to.equal('可过户 & 送域名\n限量 10 台')
+  })
+})
@@ -0,0 +1,144 @@
+import { expect } from 'chai'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { FeedFormatError, parseFeed } from '../src/feed'
+
+function fixture(name: string): string {
+  return readFileSync(resolve(__dirname, 'fixtures', name), 'utf8')
+}
+
+describe('feed', () => {
+  describe('rss 2.0', () => {
+    const { format, entries } = parseFeed(fixture('rss2.xml'))
+
+    it('parses item fields', () => {
+      expect(format).to.equal('rss')
+      expect(entries).to.have.length(2)
+      const [entry] = entries
+      expect(entry.id).to.equal('3001')
+      expect(entry.title).to.equal('【出】香港 CN2 GIA 1C1G 年付 ￥199')
+      expect(entry.description).to.equal('<p>可过户 &amp; 送域名</p>')
+      expect(entry.author).to.equal('seller')
+      expect(entry.categories).to.deep.equal(['trade'])
+      expect(entry.published.toISOString()).to.equal('2024-11-29T08:00:00.000Z')
+    })
+
+    it('collects enclosure and media images once', () => {
+      expect(entries[0].images).to.deep.equal([
+        'https://www.nodeseek.com/uploads/panel.png',
+        'https://cdn.nodeseek.com/uploads/speed.jpg'
+      ])
+    })
+
+    it('falls back to the link and the author name', () => {
+      expect(entries[1].id).to.equal('https://www.nodeseek.com/post-3002-1')
+      expect(entries[1].author).to.equal('管理员')
+      expect(entries[1].images).to.deep.equal([])
+    })
+  })
+
+  describe('rss 1.0', () => {
+    const { format, entries } = parseFeed(fixture('rss1.xml'))
+
+    it('reads items next to the channel', () => {
+      expect(format).to.equal('rdf')
+      expect(entries.map(entry => entry.id)).to.deep.equal([
+        'https://forum.example.org/t/1001',
+        'https://forum.example.org/t/1002'
+      ])
+    })
+
+    it('parses dublin core fields', () => {
+      const [entry] = entries
+      expect(entry.title).to.equal('出 美国 独立服务器 E3-1230 & 32G')
+      expect(entry.description).to.equal('<p>月付 $45，可小刀</p>')
+      expect(entry.author).to.equal('alice')
+      expect(entry.categories).to.deep.equal(['交易', '独服'])
+      expect(entry.published.toISOString()).to.equal('2024-11-20T04:00:00.000Z')
+      expect(entry.updated.toISOString()).to.equal('2024-11-20T05:00:00.000Z')
+    })
+
+    it('uses content:encoded without a description', () => {
+      expect(entries[1].description).to.equal('<p>日志见下</p>')
+      expect(entries[1].categories).to.deep.equal([])
+    })
+  })
+
+  describe('atom', () => {
+    const { format, entries } = parseFeed(fixture('atom.xml'))
+
+    it('detects the format', () => {
+      expect(format).to.equal('atom')
+      expect(entries).to.have.length(3)
+    })
+
+    it('parses entry fields', () => {
+      const [entry] = entries
+      expect(entry.id).to.equal('tag:vendor.example.com,2024:black-friday')
+      expect(entry.title).to.equal('黑五特价 2C8G 日本 CN2 GIA')
+      expect(entry.link).to.equal('https://vendor.example.com/blog/posts/black-friday')
+      expect(entry.author).to.equal('销售部')
+      expect(entry.categories).to.deep.equal(['deals', 'vps'])
+      expect(entry.description).to.equal('<p>年付 <b>$29.99</b>，限量 100 台</p>')
+      expect(entry.published.toISOString()).to.equal('2024-11-29T08:00:00.000Z')
+      expect(entry.updated.toISOString()).to.equal('2024-11-29T09:30:00.000Z')
+    })
+
+    it('falls back to the feed author and summary', () => {
+      expect(entries[1].author).to.equal('HostVPS 官方')
+      expect(entries[1].description).to.equal('11 月 30 日凌晨进行网络维护')
+      expect(entries[1].published).to.be.undefined
+    })
+
+    it('resolves image enclosures against the entry and feed base', () => {
+      // 条目链接是绝对地址时按条目链接解析，非图片附件忽略
+      expect(entries[0].images).to.deep.equal(['https://vendor.example.com/blog/posts/images/banner.png'])
+      // 条目的 xml:base 优先
+      expect(entries[1].images).to.deep.equal(['https://cdn.example.net/2024/11/maintenance.jpg'])
+      // 条目链接也是相对地址时先按订阅源的 xml:base 解析条目链接
+      expect(entries[2].images).to.deep.equal(['https://vendor.example.com/blog/thumb.webp'])
+    })
+  })
+
+  describe('json feed', () => {
+    const { format, entries } = parseFeed(fixture('feed.json'))
+
+    it('parses item fields', () => {
+      expect(format).to.equal('json')
+      const [entry] = entries
+      expect(entry.id).to.equal('2001')
+      expect(entry.title).to.equal('东京 VPS 测评：IPv6 与延迟')
+      expect(entry.link).to.equal('https://review.example.net/posts/tokyo-vps')
+      expect(entry.description).to.equal('<p>延迟 <b>35ms</b></p>')
+      expect(entry.author).to.equal('测评君')
+      expect(entry.categories).to.deep.equal(['review', '日本'])
+      expect(entry.published.toISOString()).to.equal('2024-11-18T10:00:00.000Z')
+      expect(entry.updated.toISOString()).to.equal('2024-11-18T12:00:00.000Z')
+    })
+
+    it('resolves images and skips other attachments', () => {
+      expect(entries[0].images).to.deep.equal([
+        'https://review.example.net/images/cover.jpg',
+        'https://review.example.net/images/speed.png'
+      ])
+    })
+
+    it('falls back to external_url, content_text and the item author', () => {
+      const entry = entries[1]
+      expect(entry.link).to.equal('https://other.example.com/article')
+      expect(entry.title).to.equal('')
+      expect(entry.description).to.equal('纯文本正文')
+      expect(entry.author).to.equal('访客')
+      expect(entry.published).to.be.undefined
+    })
+  })
+
+  describe('errors', () => {
+    it('rejects empty and unknown sources', () => {
+      expect(() => parseFeed('  ')).to.throw(FeedFormatError, '订阅源内容为空')
+      expect(() => parseFeed('<html><body></body></html>')).to.throw(FeedFormatError, '无法识别的订阅源格式')
+      expect(() => parseFeed('{"items": []}')).to.throw(FeedFormatError, '无法识别的 JSON 订阅源格式')
+      expect(() => parseFeed('{"items": [')).to.throw(FeedFormatError, 'JSON Feed 解析失败')
+    })
+  })
+})
@@ -0,0 +1,139 @@
+import { expect } from 'chai'
+import { App, Context } from 'koishi'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { SQLiteDriver } from '@minatojs/driver-sqlite'
+import { createApp, createFeedServer, FeedServer, stopApp } from './shared'
+
+// 旧版插件的表结构
+function legacySchema(ctx: Context) {
+  ctx.model.extend('nodeseek_posts', {
+    id: 'unsigned',
+    postId: 'string',
+    title: 'text',
+    description: 'text',
+    link: 'string',
+    category: 'string',
+    author: 'string',
+    pubDate: 'timestamp',
+    guid: 'string',
+    createdAt: 'timestamp',
+    updatedAt: 'timestamp'
+  }, {
+    primary: 'id',
+    autoInc: true,
+    unique: ['postId']
+  })
+
+  ctx.model.extend('nodeseek_subscriptions', {
+    id: 'unsigned',
+    platformId: 'string',
+    userId: 'string',
+    keywords: 'json',
+    categories: 'json',
+    createdAt: 'timestamp',
+    updatedAt: 'timestamp'
+  }, {
+    primary: 'id',
+    autoInc: true,
+    unique: ['platformId', 'userId']
+  })
+
+  ctx.model.extend('nodeseek_push_records', {
+    id: 'unsigned',
+    platformId: 'string',
+    userId: 'string',
+    postId: 'string',
+    pushedAt: 'timestamp'
+  }, {
+    primary: 'id',
+    autoInc: true,
+    unique: [['platformId', 'userId', 'postId']]
+  })
+}
+
+// 获取 SQLite 中的建表语句
+function getTableSQL(app: App, table: string): string {
+  const driver = app.database.drivers[0] as SQLiteDriver
+  return driver._get(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`, [table]).sql
+}
+
+describe('migrate', () => {
+  let dir: string
+  let path: string
+  let feed: FeedServer
+  let app: App
+  const now = new Date()
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nodeseek-'))
+    path = join(dir, 'koishi.db')
+
+    // 用旧版表结构创建数据库
+    const legacy = new App()
+    legacy.plugin(SQLiteDriver, { path })
+    legacy.plugin(legacySchema)
+    await legacy.start()
+    await legacy.database.create('nodeseek_subscriptions', {
+      platformId: 'mock:514', userId: '123', keywords: ['日本'], categories: [], createdAt: now, updatedAt: now
+    })
+    await legacy.database.create('nodeseek_posts', {
+      postId: '1', guid: '1', title: 'HostVPS 补货', description: '', link: 'https://www.nodeseek.com/post-1-1',
+      category: 'trade', author: 'seller', pubDate: now, createdAt: now, updatedAt: now
+    })
+    await legacy.database.create('nodeseek_push_records', { platformId: 'mock:514', userId: '123', postId: '1', pushedAt: now })
+    await legacy.stop()
+
+    feed = await createFeedServer()
+    app = await createApp({
+      rssUrl: feed.url,
+      sources: [{ id: 'other', url: feed.url }],
+      channelAuthority: 1
+    }, { database: 'sqlite', path })
+  })
+
+  after(async () => {
+    await stopApp(app)
+    await feed.close()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('replaces the legacy unique keys of subscriptions', async () => {
+    const sql = getTableSQL(app, 'nodeseek_subscriptions')
+    expect(sql).to.not.include('UNIQUE (`platformId`)')
+    expect(sql).to.include('UNIQUE (`platformId`, `userId`, `channelId`, `name`)')
+
+    const [rule] = await app.database.get('nodeseek_subscriptions', {})
+    expect(rule).to.include({ platformId: 'mock:514', userId: '123', name: 'default' })
+    expect(rule.keywords).to.deep.equal(['日本'])
+
+    const client = app.mock.client('123')
+    expect((await client.receive('ns.push.rule add jp 东京'))[0]).to.include('✅')
+    expect((await app.mock.client('456').receive('ns.push.add 香港'))[0]).to.include('✅')
+    expect((await app.mock.client('123', '1001').receive('ns.push.add -g 美国'))[0]).to.include('✅')
+    expect((await app.mock.client('123', '1002').receive('ns.push.add -g 美国'))[0]).to.include('✅')
+    expect(await app.database.get('nodeseek_subscriptions', {})).to.have.length(5)
+  })
+  it('keeps posts with the same id from different sources', async () => {
+    const sql = getTableSQL(app, 'nodeseek_posts')
+    expect(sql).to.not.include('UNIQUE (`postId`)')
+    expect(sql).to.include('UNIQUE (`source`, `postId`)')
+
+    feed.items = [{ id: '1', title: 'HostVPS 补货' }]
+    expect(await app.nodeseek.update()).to.deep.equal([])
+    const posts = await app.database.get('nodeseek_posts', {}, { sort: { id: 'asc' } })
+    expect(posts.map(post => `${post.source}:${post.postId}`)).to.deep.equal(['nodeseek:1', 'other:1'])
+  })
+  it('records the same post for channels on one platform', async () => {
+    const sql = getTableSQL(app, 'nodeseek_push_records')
+    expect(sql).to.not.include('UNIQUE (`platformId`, `userId`, `postId`)')
+
+    await app.database.upsert('nodeseek_push_records', ['1001', '1002'].map(channelId => ({
+      platformId: 'mock:514', userId: '', channelId, source: 'nodeseek', postId: '1', pushedAt: now
+    })), ['platformId', 'userId', 'channelId', 'source', 'postId'])
+    const records = await app.database.get('nodeseek_push_records', {}, { sort: { id: 'asc' } })
+    expect(records.map(record => `${record.userId}:${record.channelId}:${record.source}:${record.postId}`))
+      .to.deep.equal(['123::nodeseek:1', ':1001:nodeseek:1', ':1002:nodeseek:1'])
+  })
+})
@@ -0,0 +1,107 @@
+import { expect } from 'chai'
+import { App } from 'koishi'
+import { createServer, Server } from 'http'
+import { AddressInfo, connect } from 'net'
+import * as proxyAgent from '@koishijs/plugin-proxy-agent'
+import { createApp, createFeedServer, FeedServer, stopApp } from './shared'
+
+// 本地 HTTP 代理，只处理 CONNECT 隧道，记录经过代理的连接数
+interface ProxyServer {
+  url: string
+  tunnels: number
+  close(): Promise<void>
+}
+
+async function createProxyServer(): Promise<ProxyServer> {
+  const proxy: ProxyServer = { url: '', tunnels: 0, close: null }
+  const server: Server = createServer((req, res) => {
+    res.writeHead(405)
+    res.end()
+  })
+  server.on('connect', (req, socket, head) => {
+    proxy.tunnels += 1
+    const [host, port] = req.url.split(':')
+    const upstream = connect(Number(port), host, () => {
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n')
+      upstream.write(head)
+      upstream.pipe(socket)
+      socket.pipe(upstream)
+    })
+    upstream.on('error', () => socket.destroy())
+    socket.on('error', () => upstream.destroy())
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  proxy.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  proxy.close = () => new Promise<void>(resolve => {
+    server.closeAllConnections()
+    server.close(() => resolve())
+  })
+  return proxy
+}
+
+// 获取一个没有监听的端口作为不可用的代理
+async function getClosedProxyUrl(): Promise<string> {
+  const server = createServer()
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  await new Promise<void>(resolve => server.close(() => resolve()))
+  return `http://127.0.0.1:${port}`
+}
+
+const withProxyAgent = (app: App) => {
+  app.plugin(proxyAgent)
+}
+
+describe('proxy', () => {
+  let feed: FeedServer
+  let app: App
+
+  beforeEach(async () => {
+    feed = await createFeedServer([{ id: '1', title: '日本 VPS' }])
+  })
+
+  afterEach(async () => {
+    if (app) await stopApp(app)
+    app = null
+    await feed.close()
+  })
+
+  it('fetches the feed through the proxy', async () => {
+    const proxy = await createProxyServer()
+    try {
+      app = await createApp({ rssUrl: feed.url, proxyUrl: proxy.url }, { plugins: [withProxyAgent] })
+      const tunnels = proxy.tunnels
+      const requests = feed.requests
+      expect(await app.nodeseek.update()).to.deep.equal([])
+      expect(proxy.tunnels).to.be.above(tunnels)
+      expect(feed.requests).to.equal(requests + 1)
+      expect((await app.nodeseek.search('日本')).posts.map(post => post.title)).to.deep.equal(['日本 VPS'])
+    } finally {
+      await proxy.close()
+    }
+  })
+
+  it('fails the update when the proxy is down by default', async () => {
+    app = await createApp({ rssUrl: feed.url, proxyUrl: await getClosedProxyUrl() }, { plugins: [withProxyAgent] })
+    expect(await app.nodeseek.update()).to.deep.equal(['nodeseek'])
+    expect(feed.requests).to.equal(0)
+  })
+
+  it('does not request directly without the proxy-agent plugin', async () => {
+    app = await createApp({ rssUrl: feed.url, proxyUrl: 'socks5://127.0.0.1:1080' })
+    expect(await app.nodeseek.update()).to.deep.equal(['nodeseek'])
+    expect(feed.requests).to.equal(0)
+  })
+
+  it('falls back to a direct request and reports it in the status', async () => {
+    const proxyUrl = await getClosedProxyUrl()
+    app = await createApp({ rssUrl: feed.url, proxyUrl, proxyFallback: 'direct' }, { plugins: [withProxyAgent] })
+    const requests = feed.requests
+    expect(await app.nodeseek.update()).to.deep.equal([])
+    expect(feed.requests).to.equal(requests + 1)
+
+    const client = app.mock.client('123')
+    const [status] = await client.receive('ns.状态')
+    expect(status).to.include('🔀 代理失败后直接请求')
+  })
+})
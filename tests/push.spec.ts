@@ -0,0 +1,254 @@
+import { expect } from 'chai'
+import { $, App, h } from 'koishi'
+import { NodeSeekSubscription } from '../src'
+import { createApp, createFeedServer, FeedServer, stopApp, TestItem } from './shared'
+
+const words = ['日本', '美国', '香港', '独立服务器', 'VPS', '内存', '硬盘', '线路', '黑五', '补货', 'CN2', 'GIA', '年付', '月付', 'Docker', '面板']
+
+// 等待异步的推送检查写入投递队列
+async function waitForOutbox(app: App, count: number, timeout = 15000): Promise<void> {
+  const deadline = Date.now() + timeout
+  while (await app.database.eval('nodeseek_push_outbox', row => $.count(row.id)) < count) {
+    if (Date.now() > deadline) throw new Error('timeout')
+    await new Promise(resolve => setTimeout(resolve, 50))
+  }
+}
+
+// 等待条件成立
+async function waitFor(check: () => Promise<boolean>, timeout = 15000): Promise<void> {
+  const deadline = Date.now() + timeout
+  while (!await check()) {
+    if (Date.now() > deadline) throw new Error('timeout')
+    await new Promise(resolve => setTimeout(resolve, 50))
+  }
+}
+
+describe('push', () => {
+  describe('batched dedup and matching', function () {
+    this.timeout(60000)
+    const subscriptionCount = 1000
+    let feed: FeedServer
+    let app: App
+    let subscriptions: Partial<NodeSeekSubscription>[]
+    let items: TestItem[]
+    const calls: Record<string, number> = {}
+
+    before(async () => {
+      feed = await createFeedServer()
+      // 内存数据库逐行比较唯一键，写入大量投递记录时很慢，这里使用有真实索引的 SQLite
+      app = await createApp({ rssUrl: feed.url, maxRulesPerUser: 20 }, { database: 'sqlite' })
+
+      // 每个用户两条摘要规则，摘要在投递时间前留在投递队列中，便于检查
+      const now = new Date()
+      subscriptions = Array.from({ length: subscriptionCount }, (_, index) => ({
+        platformId: 'mock:514',
+        targetType: 'user',
+        userId: `user${Math.floor(index / 2)}`,
+        channelId: '',
+        guildId: '',
+        name: `rule${index % 2}`,
+        keywords: [words[(index * 7) % words.length]],
+        categories: [],
+        sources: [],
+        paused: false,
+        deliveryMode: 'daily',
+        digestTime: '09:00',
+        createdAt: now,
+        updatedAt: now
+      }))
+      await app.database.upsert('nodeseek_subscriptions', subscriptions)
+
+      items = Array.from({ length: 50 }, (_, index) => ({
+        id: String(index + 1),
+        title: `${words[index % words.length]} ${words[(index * 3 + 1) % words.length]}`
+      }))
+
+      // 部分用户已经推送过第一个帖子
+      await app.database.upsert('nodeseek_push_records', Array.from({ length: 100 }, (_, index) => ({
+        platformId: 'mock:514',
+        userId: `user${index}`,
+        channelId: '',
+        source: 'nodeseek',
+        postId: '1',
+        pushedAt: now
+      })))
+
+      // 统计推送检查期间各表的读取次数
+      const get = app.database.get
+      app.database.get = function (this: typeof app.database, ...args: Parameters<typeof get>) {
+        calls[args[0]] = (calls[args[0]] || 0) + 1
+        return get.apply(this, args)
+      } as typeof get
+    })
+
+    after(async () => {
+      await stopApp(app)
+      await feed.close()
+    })
+
+    it('queues each matching post once per target', async () => {
+      // 逐个规则和帖子比较得到的结果
+      const expected: Map<string, string[]> = new Map()
+      for (const subscription of subscriptions) {
+        for (const item of items) {
+          if (!item.title.toLowerCase().includes(subscription.keywords[0].toLowerCase())) continue
+          if (item.id === '1' && Number(subscription.userId.slice(4)) < 100) continue
+          const key = `${subscription.userId}:${item.id}`
+          expected.set(key, [...expected.get(key) || [], subscription.name])
+        }
+      }
+
+      feed.items = items
+      expect(await app.nodeseek.update()).to.deep.equal([])
+      await waitForOutbox(app, expected.size)
+      const counted = { ...calls }
+
+      const rows = await app.database.get('nodeseek_push_outbox', {})
+      expect(rows.length).to.equal(expected.size)
+      for (const row of rows) {
+        expect(row.rules.sort(), `${row.userId}:${row.postId}`).to.deep.equal(expected.get(`${row.userId}:${row.postId}`).sort())
+        expect(row.digest).to.be.true
+      }
+
+      // 读取次数与规则和帖子数量无关：推送记录在检查和清理过期记录时各读取一次
+      expect(counted.nodeseek_push_records).to.equal(2)
+      expect(counted.nodeseek_push_outbox).to.equal(1)
+      expect(counted.nodeseek_subscriptions).to.equal(1)
+    })
+
+    it('does not queue posts again on the next update', async () => {
+      // 新增一个帖子，已在投递队列中的帖子不再写入
+      const before = await app.database.eval('nodeseek_push_outbox', row => $.count(row.id))
+      const matched = subscriptions.filter(subscription => subscription.keywords[0] === '日本').length
+      feed.items = [{ id: '51', title: '日本' }, ...items]
+      await app.nodeseek.update()
+      await waitForOutbox(app, before + matched)
+      await new Promise(resolve => setTimeout(resolve, 200))
+      expect(await app.database.eval('nodeseek_push_outbox', row => $.count(row.id))).to.equal(before + matched)
+    })
+  })
+
+  describe('daily digest timezone', () => {
+    let feed: FeedServer
+    let app: App
+
+    before(async () => {
+      feed = await createFeedServer()
+      app = await createApp({ rssUrl: feed.url, timezone: 'Asia/Shanghai' })
+    })
+
+    after(async () => {
+      await stopApp(app)
+      await feed.close()
+    })
+
+    it('schedules digests in the target timezone', async () => {
+      const tokyo = app.mock.client('tokyo')
+      await tokyo.receive('ns.push.add 日本')
+      expect((await tokyo.receive('ns.push.mode daily 09:00 -z Asia/Tokyo'))[0]).to.include('时区 Asia/Tokyo')
+      const shanghai = app.mock.client('shanghai')
+      await shanghai.receive('ns.push.add 日本')
+      expect((await shanghai.receive('ns.push.mode daily 09:00'))[0]).to.include('时区 Asia/Shanghai')
+      expect((await shanghai.receive('ns.push.mode daily 09:00 -z Mars/Olympus'))[0]).to.include('未知时区')
+
+      feed.items = [{ id: '1', title: '日本 VPS' }]
+      await app.nodeseek.update()
+      await waitForOutbox(app, 2)
+
+      // 东京 09:00 为 UTC 00:00，上海 09:00 为 UTC 01:00
+      const rows = await app.database.get('nodeseek_push_outbox', {})
+      const hours = Object.fromEntries(rows.map(row => [row.userId, [row.nextAttemptAt.getUTCHours(), row.nextAttemptAt.getUTCMinutes()]]))
+      expect(hours).to.deep.equal({ tokyo: [0, 0], shanghai: [1, 0] })
+    })
+  })
+  describe('invalid configured timezone', () => {
+    let feed: FeedServer
+    let app: App
+
+    before(async () => {
+      feed = await createFeedServer([{ id: '0', title: 'HostVPS 补货' }])
+      app = await createApp({ rssUrl: feed.url, timezone: 'Asia/Shangai' })
+    })
+
+    after(async () => {
+      await stopApp(app)
+      await feed.close()
+    })
+
+    it('falls back to Asia/Shanghai for digests', async () => {
+      const client = app.mock.client('123')
+      await client.receive('ns.push.add 日本')
+      expect((await client.receive('ns.push.mode daily 09:00'))[0]).to.include('时区 Asia/Shanghai')
+
+      feed.items = [{ id: '1', title: '日本 VPS' }]
+      expect(await app.nodeseek.update()).to.deep.equal([])
+      await waitForOutbox(app, 1)
+      const [row] = await app.database.get('nodeseek_push_outbox', {})
+      expect([row.nextAttemptAt.getUTCHours(), row.nextAttemptAt.getUTCMinutes()]).to.deep.equal([1, 0])
+    })
+
+    it('formats times in post lists and status', async () => {
+      const client = app.mock.client('123')
+      const [list] = await client.receive('ns.all')
+      expect(list).to.include('HostVPS 补货').and.include('🕒')
+      const [status] = await client.receive('ns.状态')
+      expect(status).to.include('上次成功').and.not.include('上次成功: 暂无')
+    })
+  })
+  describe('push records', () => {
+    let feed: FeedServer
+    let app: App
+    const sent: string[] = []
+
+    before(async () => {
+      feed = await createFeedServer()
+      app = await createApp({ rssUrl: feed.url, channelAuthority: 1 })
+      // 模拟适配器只能在会话中发送消息，记录主动推送的内容
+      const bot = app.bots[0]
+      const sendMessage = bot.sendMessage
+      bot.sendMessage = function (this: typeof bot, ...args: Parameters<typeof sendMessage>) {
+        if (args[3]?.session) return sendMessage.apply(this, args)
+        sent.push(h.normalize(args[1]).join(''))
+        return Promise.resolve([])
+      } as typeof sendMessage
+    })
+
+    after(async () => {
+      await stopApp(app)
+      await feed.close()
+    })
+
+    it('keeps delivered posts until the push record is written', async () => {
+      const client = app.mock.client('123', '1001')
+      expect((await client.receive('ns.push.add -g 日本'))[0]).to.include('✅')
+
+      // 推送记录写入失败
+      const upsert = app.database.upsert
+      let failing = true
+      app.database.upsert = function (this: typeof app.database, ...args: Parameters<typeof upsert>) {
+        if (failing && args[0] === 'nodeseek_push_records') return Promise.reject(new Error('database is locked'))
+        return upsert.apply(this, args)
+      } as typeof upsert
+
+      try {
+        feed.items = [{ id: '1', title: '日本 VPS' }]
+        await app.nodeseek.update()
+        await waitFor(async () => (await app.database.get('nodeseek_push_outbox', { status: 'sent' })).length === 1)
+        expect(sent).to.have.length(1)
+        expect(await app.database.get('nodeseek_push_records', {})).to.have.length(0)
+      } finally {
+        failing = false
+      }
+
+      // 下次处理队列时补写推送记录，已送达的帖子不再发送
+      feed.items = [{ id: '2', title: '日本 KVM' }, ...feed.items]
+      await app.nodeseek.update()
+      await waitFor(async () => (await app.database.get('nodeseek_push_outbox', {})).length === 0)
+      expect(sent).to.have.length(2)
+      expect(sent[1]).to.include('日本 KVM').and.not.include('日本 VPS')
+      const records = await app.database.get('nodeseek_push_records', {})
+      expect(records.map(record => `${record.channelId}:${record.postId}`).sort()).to.deep.equal(['1001:1', '1001:2'])
+      app.database.upsert = upsert
+    })
+  })
+})
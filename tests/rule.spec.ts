@@ -0,0 +1,28 @@
+import { expect } from 'chai'
+import { matchRule, parseRule, RuleDocument } from '../src/rule'
+
+const doc: RuleDocument = { title: '出 日本 2C8G 8G内存', description: '', author: 'seller', category: ['trade', '交易'] }
+
+describe('rule', () => {
+  describe('regex', () => {
+    it('matches posts when enabled', () => {
+      expect(matchRule(parseRule('/\\d+G内存/', { allowRegex: true }), doc)).to.be.true
+      expect(matchRule(parseRule('title:/^出\\s+(日本|美国)/', { allowRegex: true }), doc)).to.be.true
+      expect(() => parseRule('/\\d+G内存/', { allowRegex: false })).to.throw('未启用正则表达式规则')
+    })
+
+    it('rejects long patterns', () => {
+      expect(() => parseRule(`/${'a'.repeat(101)}/`, { allowRegex: true })).to.throw('正则表达式过长')
+      expect(() => parseRule(`/${'a'.repeat(100)}/`, { allowRegex: true })).to.not.throw()
+    })
+
+    it('rejects nested quantifiers', () => {
+      for (const pattern of ['(a+)+$', '(a*)*', '(\\w+\\s?)*x', '((ab)+)+', '(a+){2,}', '(?:x|y+)+']) {
+        expect(() => parseRule(`/${pattern}/`, { allowRegex: true }), pattern).to.throw('不能在重复的分组内再使用重复')
+      }
+      for (const pattern of ['(ab)+', '(\\d+)G', 'a+b*', '[(+]+', '\\(a+\\)+', '(a{2})', 'x{2}(ab)+']) {
+        expect(() => parseRule(`/${pattern}/`, { allowRegex: true }), pattern).to.not.throw()
+      }
+    })
+  })
+})
@@ -0,0 +1,40 @@
+// 全文索引与逐个帖子匹配的查询耗时对比：npm run bench [帖子数，最多 1000] [memory|sqlite]
+// 内存数据库没有真正的索引，查找索引词时同样逐行比较，SQLite 的结果更接近实际部署
+import { matchRule, parseRule } from '../src/rule'
+import { createApp, createCorpus, createFeedServer, stopApp } from './shared'
+
+const queries = ['独立服务器', '黑五', 'vps', '8g', 'vps 日本', 'cn2gia', '黑五 OR 补货']
+const runs = 20
+
+async function measure(callback: () => Promise<unknown>): Promise<number> {
+  const start = process.hrtime.bigint()
+  for (let i = 0; i < runs; i++) await callback()
+  return Number(process.hrtime.bigint() - start) / 1e6 / runs
+}
+
+async function main() {
+  const count = Math.min(Number(process.argv[2]) || 1000, 1000)
+  const database = process.argv[3] === 'memory' ? 'memory' : 'sqlite'
+  const feed = await createFeedServer(createCorpus(count, 1, 20))
+  const categoryCacheSize = Object.fromEntries(['daily', 'tech', 'info', 'review', 'trade', 'carpool', 'promotion', 'dev', 'photo-share', 'expose'].map(category => [category, 100]))
+  const app = await createApp({ rssUrl: feed.url, maxCacheSize: 1000, categoryCacheSize: categoryCacheSize as any, pushEnabled: false }, { database })
+  const posts = await app.database.get('nodeseek_posts', {})
+  const terms = await app.database.get('nodeseek_post_terms', {})
+  console.log(`${database}：帖子 ${posts.length} 个，索引 ${terms.length} 行，每个查询运行 ${runs} 次取平均`)
+
+  for (const query of queries) {
+    const rule = parseRule(query)
+    let hits = 0
+    const linear = await measure(async () => {
+      const posts = await app.database.get('nodeseek_posts', {})
+      hits = posts.filter(post => matchRule(rule, { ...post, category: [post.category] })).length
+    })
+    const indexed = await measure(() => app.nodeseek.search({ query, sort: 'newest' }, 20))
+    console.log(`${query.padEnd(10)} 逐个匹配 ${linear.toFixed(1).padStart(7)}ms  索引 ${indexed.toFixed(1).padStart(7)}ms  (${hits} 条)`)
+  }
+
+  await stopApp(app)
+  await feed.close()
+}
+
+main()
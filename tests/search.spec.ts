@@ -0,0 +1,81 @@
+import { expect } from 'chai'
+import { App } from 'koishi'
+import { countTerms, getIndexTerms } from '../src/search'
+import { matchRule, parseRule } from '../src/rule'
+import { NodeSeekPost, PostPage } from '../src'
+import { createApp, createCorpus, createFeedServer, FeedServer, stopApp } from './shared'
+
+describe('search', () => {
+  describe('tokenizer', () => {
+    it('indexes latin words as whole words and bigrams', () => {
+      const terms = countTerms('HostVPS 特价 2C8G 日本', '').map(count => count.term)
+      expect(terms).to.include.members(['hostvps', '特价', '2c8g', '日本', '#vp', '#ps', '#8g'])
+    })
+
+    it('looks up substrings through bigrams', () => {
+      expect(getIndexTerms('vps')).to.deep.equal(['#vp', '#ps'])
+      expect(getIndexTerms('VPS 日本')).to.deep.equal(['#vp', '#ps', '日本'])
+      expect(getIndexTerms('独立服务器')).to.deep.equal(['独立', '立服', '服务', '务器'])
+    })
+
+    it('falls back to scanning for single characters', () => {
+      expect(getIndexTerms('日')).to.be.null
+      expect(getIndexTerms('c')).to.be.null
+      expect(getIndexTerms('vps c')).to.be.null
+    })
+  })
+
+  for (const database of ['memory', 'sqlite'] as const) describe(`index (${database})`, () => {
+    let feed: FeedServer
+    let app: App
+    let posts: NodeSeekPost[]
+
+    before(async () => {
+      feed = await createFeedServer([
+        { id: 'example', title: 'HostVPS 特价 2C8G 日本', category: 'trade' },
+        ...createCorpus(200)
+      ])
+      app = await createApp({ rssUrl: feed.url }, { database })
+      posts = await app.database.get('nodeseek_posts', {})
+    })
+
+    after(async () => {
+      await stopApp(app)
+      await feed.close()
+    })
+
+    // 逐页读取全部结果
+    async function collect(fetch: (offset: number) => Promise<PostPage>): Promise<string[]> {
+      const ids: string[] = []
+      for (let offset = 0; ; offset += 20) {
+        const page = await fetch(offset)
+        ids.push(...page.posts.map(post => post.postId))
+        if (!page.hasMore) return ids.sort()
+      }
+    }
+
+    // 不使用索引，逐个帖子按规则匹配
+    function scan(query: string): string[] {
+      const rule = parseRule(query)
+      return posts
+        .filter(post => matchRule(rule, { ...post, category: [post.category] }))
+        .map(post => post.postId)
+        .sort()
+    }
+
+    it('finds substrings of indexed words', async () => {
+      for (const query of ['vps', '8g', 'vps 日本']) {
+        const ids = await collect(offset => app.nodeseek.getPostsByCategory('all', 20, query, undefined, offset))
+        expect(ids, query).to.include('example')
+      }
+    })
+
+    for (const query of ['vps', '8g', 'vps 日本', 'host', 'gia', 'cn2gia', 'ipv6', 'v6', '2c8g', '独立', '服务器', '黑五 OR 补货', 'docker -教程', '日', 'k']) {
+      it(`returns the same results as a linear scan: ${query}`, async () => {
+        const expected = scan(query)
+        expect(await collect(offset => app.nodeseek.getPostsByCategory('all', 20, query, undefined, offset))).to.deep.equal(expected)
+        expect(await collect(offset => app.nodeseek.search({ query, sort: 'newest' }, 20, offset))).to.deep.equal(expected)
+      })
+    }
+  })
+})
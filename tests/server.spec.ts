@@ -0,0 +1,67 @@
+import { expect } from 'chai'
+import { App } from 'koishi'
+import { createServer } from 'http'
+import { AddressInfo } from 'net'
+import { Server } from '@koishijs/plugin-server'
+import { createApp, createFeedServer, FeedServer, stopApp } from './shared'
+
+// 获取一个空闲端口
+async function getFreePort(): Promise<number> {
+  const probe = createServer()
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve))
+  const { port } = probe.address() as AddressInfo
+  await new Promise<void>(resolve => probe.close(() => resolve()))
+  return port
+}
+
+describe('server', () => {
+  let feed: FeedServer
+  let app: App
+
+  beforeEach(async () => {
+    feed = await createFeedServer([{ id: '1', title: '日本 VPS' }])
+  })
+
+  afterEach(async () => {
+    await stopApp(app, [Server])
+    await feed.close()
+  })
+
+  it('asks for selfUrl before creating a feed', async () => {
+    app = await createApp({ rssUrl: feed.url }, { plugins: [app => app.plugin(Server, { host: '127.0.0.1', port: 0 })] })
+    const client = app.mock.client('123')
+    await client.receive('ns.push.add 日本')
+    expect((await client.receive('ns.push.feed'))[0]).to.include('配置 selfUrl')
+    const [rule] = await app.database.get('nodeseek_subscriptions', {})
+    expect(rule.feedToken).to.not.be.ok
+  })
+
+  it('serves rule feeds under selfUrl', async () => {
+    const port = await getFreePort()
+    const selfUrl = 'https://bot.example.com'
+    app = await createApp({ rssUrl: feed.url }, { plugins: [app => app.plugin(Server, { host: '127.0.0.1', port, selfUrl })] })
+    const client = app.mock.client('123')
+    await client.receive('ns.push.add 日本')
+    const [message] = await client.receive('ns.push.feed')
+    const match = new RegExp(`RSS: ${selfUrl}/nodeseek/feed/(\\w+)\\.rss`).exec(message)
+    expect(match, message).to.be.ok
+
+    const response = await fetch(`http://127.0.0.1:${port}/nodeseek/feed/${match[1]}.rss`)
+    expect(response.status).to.equal(200)
+    const body = await response.text()
+    expect(body).to.include('日本 VPS')
+    expect(body).to.include(`${selfUrl}/nodeseek/feed/${match[1]}.rss`)
+  })
+  it('checks the api token', async () => {
+    const port = await getFreePort()
+    app = await createApp({ rssUrl: feed.url, apiEnabled: true, apiToken: 'secret' }, { plugins: [app => app.plugin(Server, { host: '127.0.0.1', port })] })
+    const url = `http://127.0.0.1:${port}/nodeseek/status`
+
+    expect((await fetch(url)).status).to.equal(401)
+    expect((await fetch(`${url}?token=secre`)).status).to.equal(401)
+    expect((await fetch(`${url}?token=secreT`)).status).to.equal(401)
+    expect((await fetch(url, { headers: { authorization: 'Bearer secret!' } })).status).to.equal(401)
+    expect((await fetch(`${url}?token=secret`)).status).to.equal(200)
+    expect((await fetch(url, { headers: { authorization: 'Bearer secret' } })).status).to.equal(200)
+  })
+})
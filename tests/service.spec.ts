@@ -0,0 +1,106 @@
+import { expect } from 'chai'
+import { App, h } from 'koishi'
+import { PushTarget } from '../src'
+import { createApp, createFeedServer, FeedServer, stopApp } from './shared'
+
+describe('service', () => {
+  let feed: FeedServer
+  let app: App
+  const target: PushTarget = { platformId: 'mock:514', targetType: 'user', userId: '456', channelId: '', guildId: '' }
+
+  before(async () => {
+    feed = await createFeedServer()
+    app = await createApp({ rssUrl: feed.url })
+  })
+
+  after(async () => {
+    await stopApp(app)
+    await feed.close()
+  })
+
+  it('validates keywords and rule names like the commands', async () => {
+    const invalidKeyword = await app.nodeseek.addSubscription(target, ['(VPS'], [], 'jp')
+    expect(invalidKeyword.success).to.be.false
+    expect(invalidKeyword.message).to.include('括号未闭合')
+
+    const invalidName = await app.nodeseek.addSubscription(target, ['日本'], [], 'a b')
+    expect(invalidName.success).to.be.false
+    expect(invalidName.message).to.include('规则名称只能包含')
+
+    expect(await app.nodeseek.getSubscriptions(target)).to.have.length(0)
+  })
+
+  it('validates rule updates', async () => {
+    expect((await app.nodeseek.addSubscription(target, ['日本'], [], 'jp')).success).to.be.true
+
+    const invalidKeyword = await app.nodeseek.updateRule(target, 'jp', { keywords: ['VPS AND'] })
+    expect(invalidKeyword.success).to.be.false
+    expect(invalidKeyword.message).to.include('运算符后缺少条件')
+
+    const invalidName = await app.nodeseek.updateRule(target, 'jp', { name: '' })
+    expect(invalidName.success).to.be.false
+
+    const [rule] = await app.nodeseek.getSubscriptions(target)
+    expect(rule.name).to.equal('jp')
+    expect(rule.keywords).to.deep.equal(['日本'])
+
+    expect((await app.nodeseek.updateRule(target, 'jp', { name: 'japan', keywords: ['日本 OR 东京'] })).success).to.be.true
+    expect((await app.nodeseek.getSubscription(target, 'japan')).keywords).to.deep.equal(['日本 OR 东京'])
+  })
+
+  it('creates rules with their sources in one write', async () => {
+    const set = app.database.set
+    const tables: string[] = []
+    app.database.set = function (this: typeof app.database, ...args: Parameters<typeof set>) {
+      tables.push(args[0])
+      return set.apply(this, args)
+    } as typeof set
+    try {
+      const result = await app.nodeseek.addSubscription(target, ['东京'], [], 'tokyo', ['nodeseek'])
+      expect(result.success).to.be.true
+      expect((await app.mock.client('789').receive('ns.push.rule add vendor 香港 -s nodeseek'))[0]).to.include('✅')
+    } finally {
+      app.database.set = set
+    }
+    expect(tables).to.not.include('nodeseek_subscriptions')
+    expect((await app.nodeseek.getSubscription(target, 'tokyo')).sources).to.deep.equal(['nodeseek'])
+    const [rule] = await app.database.get('nodeseek_subscriptions', { userId: '789', name: 'vendor' })
+    expect(rule.sources).to.deep.equal(['nodeseek'])
+  })
+
+  it('reports validation errors through the commands', async () => {
+    const client = app.mock.client('789')
+    expect((await client.receive('ns.push.add "(VPS"'))[0]).to.include('括号未闭合')
+    expect((await client.receive('ns.push.rule.rename default "a b"'))[0]).to.include('规则名称只能包含')
+  })
+
+  it('escapes author names in follow messages', async () => {
+    const sent: h[][] = []
+    const dispose = app.on('before-send', (session) => {
+      sent.push(session.elements)
+    })
+    const client = app.mock.client('789')
+    const author = h.escape('<b>seller</b>')
+    await client.receive(`ns.follow ${author}`)
+    await client.receive(`ns.follow ${author}`)
+    await client.receive(`ns.unfollow ${author}`)
+    await client.receive(`ns.unfollow ${author}`)
+    dispose()
+
+    expect(sent).to.have.length(4)
+    for (const elements of sent) {
+      expect(elements.map(element => element.type)).to.deep.equal(['text'])
+      expect(elements[0].attrs.content).to.include('<b>seller</b>')
+    }
+  })
+  it('reads the legacy maxSubscriptionsPerUser as the keyword limit', async () => {
+    const legacy = await createApp({ rssUrl: feed.url, maxSubscriptionsPerUser: 2 })
+    try {
+      const result = await legacy.nodeseek.addSubscription(target, ['日本', '美国', '香港'])
+      expect(result.success).to.be.false
+      expect(result.message).to.equal('❌ 订阅关键词数量超限，每条规则最多允许 2 个关键词')
+    } finally {
+      await stopApp(legacy)
+    }
+  })
+})
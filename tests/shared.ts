@@ -0,0 +1,109 @@
+import { App, Plugin } from 'koishi'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import mock from '@koishijs/plugin-mock'
+import memory from '@koishijs/plugin-database-memory'
+import { SQLiteDriver } from '@minatojs/driver-sqlite'
+import http from '@koishijs/plugin-http'
+import * as nodeseek from '../src'
+
+// 测试用的帖子，生成 RSS 2.0 条目
+export interface TestItem {
+  id: string
+  title: string
+  desc?: string
+  category?: string
+  author?: string
+  date?: number
+}
+
+export function renderRSS(items: TestItem[]): string {
+  const entries = items.map(item => '<item>' +
+    `<title><![CDATA[${item.title}]]></title>` +
+    `<description><![CDATA[${item.desc || ''}]]></description>` +
+    `<link>https://www.nodeseek.com/post-${item.id}-1</link>` +
+    `<category>${item.category || 'trade'}</category>` +
+    `<dc:creator><![CDATA[${item.author || 'seller'}]]></dc:creator>` +
+    `<pubDate>${new Date(item.date || Date.now()).toUTCString()}</pubDate>` +
+    `<guid isPermaLink="false">${item.id}</guid>` +
+    '</item>').join('')
+  return '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/"><channel>' +
+    '<title>NodeSeek</title><link>https://www.nodeseek.com</link><description>NodeSeek</description>' +
+    entries + '</channel></rss>'
+}
+
+// 本地 RSS 源，items 修改后下次请求返回新的内容
+export interface FeedServer {
+  url: string
+  items: TestItem[]
+  requests: number
+  close(): Promise<void>
+}
+
+export async function createFeedServer(items: TestItem[] = []): Promise<FeedServer> {
+  const feed: FeedServer = { url: '', items, requests: 0, close: null }
+  const server: Server = createServer((req, res) => {
+    feed.requests += 1
+    res.writeHead(200, { 'content-type': 'application/rss+xml; charset=utf-8' })
+    res.end(renderRSS(feed.items))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  feed.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  feed.close = () => new Promise<void>(resolve => server.close(() => resolve()))
+  return feed
+}
+
+// 创建应用的选项
+export interface AppOptions {
+  database?: 'memory' | 'sqlite'  // sqlite 使用内存中的 SQLite 数据库，有真实的索引
+  path?: string  // SQLite 数据库文件，默认在内存中
+  plugins?: ((app: App) => void)[]  // 在本插件之前加载的插件
+}
+
+// 启动加载了本插件的应用，关闭自动更新，启动时抓取一次 rssUrl
+export async function createApp(config: Partial<nodeseek.Config> = {}, options: AppOptions = {}): Promise<App> {
+  const app = new App()
+  app.plugin(mock)
+  if (options.database === 'sqlite') {
+    app.plugin(SQLiteDriver, { path: options.path || ':memory:' })
+  } else {
+    app.plugin(memory)
+  }
+  app.plugin(http)
+  for (const plugin of options.plugins || []) plugin(app)
+  app.plugin(nodeseek, { enableAutoUpdate: false, pushInterval: 500, ...config })
+  await app.start()
+  return app
+}
+
+// 先卸载模拟适配器和传入的服务插件，避免停止应用时它们晚于所依赖的服务卸载而报错
+export async function stopApp(app: App, plugins: Plugin[] = []): Promise<void> {
+  for (const plugin of plugins) app.registry.delete(plugin)
+  app.registry.delete(mock)
+  await app.stop()
+}
+
+const corpusWords = [
+  '日本', '美国', '香港', '独立服务器', 'HostVPS', 'VPS', '2C8G', '8G内存', 'CN2GIA', 'CN2', 'GIA', 'IPv6', 'NAT',
+  'KVM', 'Docker', '面板', '年付', '月付', '黑五', '补货', '线路', '延迟', '带宽', '测评', '教程', '求助', '便宜', '出售'
+]
+
+// 生成固定内容的帖子，用于比较索引查询和逐个匹配的结果
+// filler 为每个词之外混入的随机汉字词数量，用于模拟查询词只出现在少数帖子中的情况
+export function createCorpus(count: number, seed = 1, filler = 0): TestItem[] {
+  let state = seed
+  const random = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648
+  const word = () => random() * (filler + 1) < 1
+    ? corpusWords[Math.floor(random() * corpusWords.length)]
+    : String.fromCharCode(0x4E00 + Math.floor(random() * 3000), 0x4E00 + Math.floor(random() * 3000))
+  const pick = (length: number) => Array.from({ length }, word).join(random() < 0.5 ? ' ' : '')
+  const categories = ['daily', 'tech', 'info', 'review', 'trade', 'carpool', 'promotion', 'dev', 'photo-share', 'expose']
+  return Array.from({ length: count }, (_, index) => ({
+    id: String(index + 1),
+    title: pick(4),
+    desc: pick(20),
+    category: categories[index % categories.length],
+    date: Date.now() - index * 60000
+  }))
+}
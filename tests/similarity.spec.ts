@@ -0,0 +1,36 @@
+import { expect } from 'chai'
+import { getShingles, normalizeText, similarity } from '../src/similarity'
+
+// 默认的重发判定阈值
+const threshold = 0.75
+
+function score(a: string, b: string, descriptionA = '', descriptionB = ''): number {
+  return similarity(getShingles(a, descriptionA), getShingles(b, descriptionB))
+}
+
+describe('similarity', () => {
+  it('strips links, prices and punctuation', () => {
+    expect(normalizeText('【出】日本 2C2G 30元/月')).to.equal('出日本2c2g')
+    expect(normalizeText('出 日本 2C2G 28元/月')).to.equal('出日本2c2g')
+    expect(normalizeText('WTS ＄4.99/mo Tokyo https://example.com/a?b=1')).to.equal('wtstokyo')
+    expect(normalizeText('香港 1C1G ￥199 年付')).to.equal('香港1c1g年付')
+    expect(normalizeText('预算 50/月 €10 20 欧')).to.equal('预算')
+  })
+
+  it('treats the documented example as a repost', () => {
+    expect(score('【出】日本 2C2G 30元/月', '出 日本 2C2G 28元/月')).to.equal(1)
+  })
+
+  it('keeps different offers below the default threshold', () => {
+    expect(score('【出】日本 2C2G 30元/月', '【出】美国 4C8G 30元/月')).to.be.below(threshold)
+    expect(score('求助：Docker 面板无法启动', '出 日本 2C2G 30元/月')).to.be.below(threshold)
+  })
+
+  it('takes the lower of title and description scores', () => {
+    const title = '出 日本 2C2G'
+    expect(score(title, title, '可过户，送域名', '可过户，送域名')).to.equal(1)
+    expect(score(title, title, '可过户，送域名', '不过户，线路是 CN2 GIA')).to.be.below(threshold)
+    // 任一帖子没有内容时只比较标题
+    expect(score(title, title, '可过户，送域名', '')).to.equal(1)
+  })
+})
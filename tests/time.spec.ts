@@ -0,0 +1,28 @@
+import { expect } from 'chai'
+import { getNextDailyTime, getNextHour } from '../src/time'
+
+describe('time', () => {
+  describe('getNextHour', () => {
+    it('rounds to the next local hour', () => {
+      const now = new Date('2024-06-01T10:20:00Z')
+      expect(getNextHour(now, 'Asia/Shanghai').toISOString()).to.equal('2024-06-01T11:00:00.000Z')
+      // UTC+5:30，本地 15:50 的下一个整点为 16:00
+      expect(getNextHour(now, 'Asia/Kolkata').toISOString()).to.equal('2024-06-01T10:30:00.000Z')
+      // UTC+5:45
+      expect(getNextHour(now, 'Asia/Kathmandu').toISOString()).to.equal('2024-06-01T11:15:00.000Z')
+    })
+
+    it('moves past the current hour on the hour', () => {
+      const now = new Date('2024-06-01T10:30:00Z')
+      expect(getNextHour(now, 'Asia/Kolkata').toISOString()).to.equal('2024-06-01T11:30:00.000Z')
+    })
+  })
+
+  describe('getNextDailyTime', () => {
+    it('schedules in the given timezone', () => {
+      const now = new Date('2024-06-01T10:20:00Z')
+      expect(getNextDailyTime(now, '09:00', 'Asia/Shanghai').toISOString()).to.equal('2024-06-02T01:00:00.000Z')
+      expect(getNextDailyTime(now, '18:00', 'Asia/Kolkata').toISOString()).to.equal('2024-06-01T12:30:00.000Z')
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { expect } from 'chai'
+import { diffTrade, formatTrade, normalizeTradeValue, parseTrade, parseTradeValue, TradeInfo } from '../src/trade'
+
+// 标题、内容和期望的解析结果
+const cases: [string, string, TradeInfo][] = [
+  ['【出】日本东京 2C2G 40G SSD 1Gbps 30元/月', '', {
+    direction: 'sell', price: 30, currency: 'CNY', cycle: 'month', cores: 2, ram: 2, disk: 40, bandwidth: 1000, location: 'JP'
+  }],
+  ['[收] 香港 CN2 GIA 小鸡，预算 50/月', '', {
+    direction: 'buy', price: 50, currency: 'CNY', cycle: 'month', location: 'HK'
+  }],
+  ['出 美国 独立服务器 E3-1230v2 32G内存 1T硬盘 年付 $199', '', {
+    direction: 'sell', price: 199, currency: 'USD', cycle: 'year', ram: 32, disk: 1024, location: 'US'
+  }],
+  ['WTS: Hetzner DE 4vCPU 8GB RAM 160GB NVMe €15.5/mo', '', {
+    direction: 'sell', price: 15.5, currency: 'EUR', cycle: 'month', cores: 4, ram: 8, disk: 160, location: 'DE'
+  }],
+  ['出个搬瓦工 CN2 GIA-E 1H1G20G 季付 $49.99 洛杉矶', '', {
+    direction: 'sell', price: 49.99, currency: 'USD', cycle: 'quarter', cores: 1, ram: 1, disk: 20, location: 'US'
+  }],
+  ['收一台新加坡 2核4G 小鸡 预算100元', '', {
+    direction: 'buy', price: 100, currency: 'CNY', cores: 2, ram: 4, location: 'SG'
+  }],
+  ['转让 腾讯云轻量 上海 2C4G 60G 6M 带宽 年付 ￥99', '', {
+    direction: 'sell', price: 99, currency: 'CNY', cycle: 'year', cores: 2, ram: 4, disk: 60, bandwidth: 6, location: 'CN'
+  }],
+  // 流量不作为硬盘或带宽
+  ['出 RackNerd 1.5G 内存 25G SSD 3TB 流量 $18.66/年', '', {
+    direction: 'sell', price: 18.66, currency: 'USD', cycle: 'year', ram: 1.5, disk: 25
+  }],
+  ['甩卖 甲骨文 ARM 4C24G 终身 ￥300', '', {
+    direction: 'sell', price: 300, currency: 'CNY', cycle: 'once', cores: 4, ram: 24
+  }],
+  ['收 512M 内存小鸡 预算 10 刀/年', '', {
+    direction: 'buy', price: 10, currency: 'USD', cycle: 'year', ram: 0.5
+  }],
+  // 全角字符
+  ['出 ２Ｃ４Ｇ 日本 ３０元／月', '', {
+    direction: 'sell', price: 30, currency: 'CNY', cycle: 'month', cores: 2, ram: 4, location: 'JP'
+  }],
+  // 型号中的数字不作为配置
+  ['出 i9-13900K 独服 64G 内存 10Gbps 端口 $120/月', '', {
+    direction: 'sell', price: 120, currency: 'USD', cycle: 'month', ram: 64, bandwidth: 10000
+  }],
+  // 标题中没有的信息从内容中查找
+  ['出台湾 hinet 动态 VPS', '价格：80元/月，配置 2核 2G 内存 20G 硬盘 100M 带宽', {
+    direction: 'sell', price: 80, currency: 'CNY', cycle: 'month', cores: 2, ram: 2, disk: 20, bandwidth: 100, location: 'TW'
+  }],
+  // 标题中的价格优先，交易方向只看标题
+  ['出 HK 1C1G 10G 1Gbps 月付 ¥25', '收 原价 $10/月', {
+    direction: 'sell', price: 25, currency: 'CNY', cycle: 'month', cores: 1, ram: 1, disk: 10, bandwidth: 1000, location: 'HK'
+  }],
+  ['Tokyo VPS 测评：IPv6 与延迟', '求购一台', { location: 'JP' }],
+  ['NAT 小鸡怎么开 IPv6', '', {}]
+]
+
+describe('trade', () => {
+  describe('parseTrade', () => {
+    for (const [title, description, expected] of cases) {
+      it(title, () => {
+        expect(parseTrade(title, description)).to.deep.equal(expected)
+      })
+    }
+  })
+
+  describe('parseTradeValue', () => {
+    it('converts capacity and bandwidth units', () => {
+      expect(parseTradeValue('ram', '4G')).to.deep.equal({ value: 4 })
+      expect(parseTradeValue('ram', '512M')).to.deep.equal({ value: 0.5 })
+      expect(parseTradeValue('ram', '1T')).to.be.null
+      expect(parseTradeValue('disk', '1T')).to.deep.equal({ value: 1024 })
+      expect(parseTradeValue('bandwidth', '1Gbps')).to.deep.equal({ value: 1000 })
+      expect(parseTradeValue('bandwidth', '500兆')).to.deep.equal({ value: 500 })
+    })
+
+    it('reads the currency of prices', () => {
+      expect(parseTradeValue('price', '50')).to.deep.equal({ value: 50 })
+      expect(parseTradeValue('price', '$50')).to.deep.equal({ value: 50, currency: 'USD' })
+      expect(parseTradeValue('price', '30刀')).to.deep.equal({ value: 30, currency: 'USD' })
+      expect(parseTradeValue('price', '30元')).to.deep.equal({ value: 30, currency: 'CNY' })
+      expect(parseTradeValue('price', '10欧')).to.deep.equal({ value: 10, currency: 'EUR' })
+      expect(parseTradeValue('price', '30k')).to.be.null
+    })
+
+    it('accepts core units', () => {
+      expect(parseTradeValue('cores', '2')).to.deep.equal({ value: 2 })
+      expect(parseTradeValue('cores', '2c')).to.deep.equal({ value: 2 })
+      expect(parseTradeValue('cores', '2核')).to.deep.equal({ value: 2 })
+      expect(parseTradeValue('cores', '2G')).to.be.null
+    })
+  })
+
+  describe('normalizeTradeValue', () => {
+    it('accepts chinese and english names', () => {
+      expect(['出', '收购', 'wtb', '租'].map(value => normalizeTradeValue('direction', value))).to.deep.equal(['sell', 'buy', 'buy', null])
+      expect(['月付', '年', 'year', '半年', '永久', '周'].map(value => normalizeTradeValue('cycle', value)))
+        .to.deep.equal(['month', 'year', 'year', 'halfyear', 'once', null])
+      expect(['jp', '日本', '东京', 'UK', '火星'].map(value => normalizeTradeValue('location', value)))
+        .to.deep.equal(['JP', 'JP', 'JP', 'GB', null])
+    })
+  })
+
+  describe('formatTrade', () => {
+    it('formats parsed posts', () => {
+      expect(formatTrade(parseTrade('【出】日本东京 2C2G 40G SSD 1Gbps 30元/月'))).to.equal('出 | ¥30/月 | 2核 2G内存 40G硬盘 1Gbps | 日本')
+      expect(formatTrade(parseTrade('甩卖 甲骨文 ARM 4C24G 终身 ￥300'))).to.equal('出 | ¥300 一次性 | 4核 24G内存')
+      expect(formatTrade(parseTrade('出 美国 独立服务器 32G内存 1T硬盘'))).to.equal('出 | 32G内存 1T硬盘 | 美国')
+    })
+  })
+
+  describe('diffTrade', () => {
+    it('lists fields present on both sides', () => {
+      expect(diffTrade(parseTrade('出 日本 2C2G 30元/月'), parseTrade('出 东京 2C4G 25元/月'))).to.deep.equal(['价格 ¥30/月 → ¥25/月', '内存 2G → 4G'])
+      expect(diffTrade(parseTrade('出 日本 2C2G 30元/月'), parseTrade('出 香港 2C2G'))).to.deep.equal(['地区 日本 → 香港'])
+    })
+  })
+})